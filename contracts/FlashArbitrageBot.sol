@@ -27,6 +27,23 @@ interface IUniswapV3Router {
         returns (uint256 amountOut);
 }
 
+interface IAlgebraRouter {
+    struct ExactInputSingleParams {
+        address tokenIn;
+        address tokenOut;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+        uint160 limitSqrtPrice;
+    }
+    
+    function exactInputSingle(ExactInputSingleParams calldata params)
+        external
+        payable
+        returns (uint256 amountOut);
+}
+
 interface IQuickSwapRouter {
     function swapExactTokensForTokens(
         uint256 amountIn,
@@ -42,36 +59,76 @@ interface IQuickSwapRouter {
         returns (uint256[] memory amounts);
 }
 
+interface ICurveAavePool {
+    function underlying_coins(uint256 i) external view returns (address);
+
+    function exchange_underlying(
+        int128 i,
+        int128 j,
+        uint256 dx,
+        uint256 minDy
+    ) external returns (uint256);
+}
+
+// Aave V3 Pool; flashLoanSimple calls executeOperation on the receiver and then pulls amount plus premium
+interface IAavePool {
+    function flashLoanSimple(
+        address receiverAddress,
+        address asset,
+        uint256 amount,
+        bytes calldata params,
+        uint16 referralCode
+    ) external;
+}
+
 contract FlashArbitrageBot is IFlashLoanRecipient, ReentrancyGuard, Ownable, Pausable {
     using SafeERC20 for OZIERC20;
     
     IVault private constant VAULT = IVault(0xBA12222222228d8Ba445958a75a0704d566BF2C8);
+    IAavePool private constant AAVE_POOL = IAavePool(0x794a61358D6845594F94dc1DB02A252b5b4814aD);
     
     address public constant UNISWAP_ROUTER = 0xE592427A0AEce92De3Edee1F18E0157C05861564;
     address public constant QUICKSWAP_ROUTER = 0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff;
+    address public constant SUSHISWAP_ROUTER = 0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506;
+    address public constant QUICKSWAP_V3_ROUTER = 0xf5b509bB0909a69B1c207E495f687a596C168E12;
+    address public constant CURVE_AAVE_POOL = 0x445FE580eF8d70FF569aB36e80c647af338db351;
+    uint256 private constant CURVE_MAX_COINS = 8;
     
     mapping(address => bool) public authorizedCallers;
+    // Routers and pools a swap step may approve and call
+    mapping(address => bool) public approvedTargets;
     uint256 public maxTradeSize = 100000 * 1e18;
     uint256 public minProfitThreshold = 1e16;
     uint256 private constant MAX_SLIPPAGE = 500;
     uint256 private constant BASIS_POINTS = 10000;
+    // Hash of the userData executeArbitrage passed to the Vault; set only while its flash loan runs
+    bytes32 private pendingFlashLoan;
+    
+    // One swap of a route; each step spends the whole output of the step before it
+    struct SwapStep {
+        uint8 dex;          // Exchange, selecting the swap interface
+        address target;     // Router, or the pool itself for Curve
+        address tokenIn;
+        address tokenOut;
+        uint24 fee;         // Uniswap V3 fee tier; ignored by other exchanges
+        uint256 minOut;
+    }
     
     struct ArbitrageParams {
-        address tokenA;
-        address tokenB;
+        address tokenA;     // Borrowed token; the route starts and ends in it
         uint256 amount;
         uint256 minProfit;
-        uint256 maxSlippage;
-        uint8 sourceExchange;
-        uint8 targetExchange;
-        uint24 uniswapFee;
-        address[] quickswapPath;
+        SwapStep[] steps;
     }
     
+    // QUICKSWAP and SUSHISWAP both select the Uniswap V2 router interface
     enum Exchange {
         UNISWAP,
         QUICKSWAP,
-        SUSHISWAP
+        SUSHISWAP,
+        CURVE,
+        BALANCER,
+        QUICKSWAP_V3
     }
     
     event ArbitrageExecuted(
@@ -90,6 +147,10 @@ contract FlashArbitrageBot is IFlashLoanRecipient, ReentrancyGuard, Ownable, Pau
     error UnauthorizedCaller();
     error InvalidTradeSize();
     error FlashLoanFailed();
+    error UnsupportedCurveCoin(address token);
+    error InvalidRoute();
+    error UnapprovedTarget(address target);
+    error UnsupportedExchange(uint8 dex);
     
     modifier onlyAuthorized() {
         if (!authorizedCallers[msg.sender] && msg.sender != owner()) {
@@ -114,6 +175,12 @@ contract FlashArbitrageBot is IFlashLoanRecipient, ReentrancyGuard, Ownable, Pau
     
     constructor() {
         authorizedCallers[msg.sender] = true;
+        
+        approvedTargets[UNISWAP_ROUTER] = true;
+        approvedTargets[QUICKSWAP_ROUTER] = true;
+        approvedTargets[SUSHISWAP_ROUTER] = true;
+        approvedTargets[QUICKSWAP_V3_ROUTER] = true;
+        approvedTargets[CURVE_AAVE_POOL] = true;
     }
     
     function executeArbitrage(
@@ -127,9 +194,91 @@ contract FlashArbitrageBot is IFlashLoanRecipient, ReentrancyGuard, Ownable, Pau
         whenNotPaused 
         profitabilityCheck(params.minProfit)
         validTradeSize(params.amount)
+        returns (uint256 profit)
     {
+        _validateRoute(params);
+        // The loan must be the one the route and the trade size check were validated for
+        if (tokens.length != 1 || amounts.length != 1 || address(tokens[0]) != params.tokenA || amounts[0] != params.amount) {
+            revert InvalidRoute();
+        }
+        
+        uint256 balanceBefore = OZIERC20(params.tokenA).balanceOf(address(this));
+        
         bytes memory userData = abi.encode(params);
+        pendingFlashLoan = keccak256(userData);
         VAULT.flashLoan(this, tokens, amounts, userData);
+        delete pendingFlashLoan;
+        
+        // Profit stays in the contract, so static calls can read it back for simulation
+        profit = OZIERC20(params.tokenA).balanceOf(address(this)) - balanceBefore;
+    }
+    
+    // Both legs on Balancer pools run as one Vault batchSwap instead of a flash loan. The Vault
+    // settles net deltas: tokenB nets to zero and tokenA only moves as the profit paid out, so
+    // the trade needs no capital and the Vault's reentrancy lock never blocks the second leg.
+    function executeBalancerArbitrage(
+        address tokenA,
+        address tokenB,
+        uint256 amount,
+        uint256 minProfit,
+        bytes32 buyPoolId,
+        bytes32 sellPoolId
+    )
+        external
+        onlyAuthorized
+        nonReentrant
+        whenNotPaused
+        profitabilityCheck(minProfit)
+        validTradeSize(amount)
+        returns (uint256 profit)
+    {
+        uint256 balanceBefore = OZIERC20(tokenA).balanceOf(address(this));
+        
+        IAsset[] memory assets = new IAsset[](2);
+        assets[0] = IAsset(tokenA);
+        assets[1] = IAsset(tokenB);
+        
+        IVault.BatchSwapStep[] memory swaps = new IVault.BatchSwapStep[](2);
+        swaps[0] = IVault.BatchSwapStep({
+            poolId: buyPoolId,
+            assetInIndex: 0,
+            assetOutIndex: 1,
+            amount: amount,
+            userData: ""
+        });
+        // A zero amount makes the Vault use the previous step's output
+        swaps[1] = IVault.BatchSwapStep({
+            poolId: sellPoolId,
+            assetInIndex: 1,
+            assetOutIndex: 0,
+            amount: 0,
+            userData: ""
+        });
+        
+        IVault.FundManagement memory funds = IVault.FundManagement({
+            sender: address(this),
+            fromInternalBalance: false,
+            recipient: payable(address(this)),
+            toInternalBalance: false
+        });
+        
+        // Negative limits are minimum receipts: tokenA must come back with at least minProfit
+        int256[] memory limits = new int256[](2);
+        limits[0] = -int256(minProfit);
+        limits[1] = 0;
+        
+        VAULT.batchSwap(IVault.SwapKind.GIVEN_IN, swaps, assets, funds, limits, block.timestamp + 300);
+        
+        profit = OZIERC20(tokenA).balanceOf(address(this)) - balanceBefore;
+        
+        emit ArbitrageExecuted(
+            tokenA,
+            tokenB,
+            amount,
+            profit,
+            uint8(Exchange.BALANCER),
+            uint8(Exchange.BALANCER)
+        );
     }
     
     function receiveFlashLoan(
@@ -139,6 +288,11 @@ contract FlashArbitrageBot is IFlashLoanRecipient, ReentrancyGuard, Ownable, Pau
         bytes memory userData
     ) external override {
         require(msg.sender == address(VAULT), "Unauthorized flash loan callback");
+        // Anyone can call Vault.flashLoan with this contract as the recipient and their own userData
+        require(
+            pendingFlashLoan != bytes32(0) && keccak256(userData) == pendingFlashLoan,
+            "Unauthorized flash loan initiator"
+        );
         
         ArbitrageParams memory params = abi.decode(userData, (ArbitrageParams));
         
@@ -153,16 +307,91 @@ contract FlashArbitrageBot is IFlashLoanRecipient, ReentrancyGuard, Ownable, Pau
             OZIERC20(address(tokens[i])).safeTransfer(address(VAULT), amountOwing);
         }
         
+        _emitArbitrageExecuted(params, profit);
+    }
+    
+    // Same route as executeArbitrage, borrowed from Aave V3 instead of the Balancer Vault. Aave charges
+    // a premium, so minProfit is what must remain after paying it.
+    function executeAaveArbitrage(ArbitrageParams memory params)
+        external
+        onlyAuthorized
+        nonReentrant
+        whenNotPaused
+        profitabilityCheck(params.minProfit)
+        validTradeSize(params.amount)
+        returns (uint256 profit)
+    {
+        _validateRoute(params);
+        
+        uint256 balanceBefore = OZIERC20(params.tokenA).balanceOf(address(this));
+        
+        AAVE_POOL.flashLoanSimple(address(this), params.tokenA, params.amount, abi.encode(params), 0);
+        
+        profit = OZIERC20(params.tokenA).balanceOf(address(this)) - balanceBefore;
+    }
+    
+    function executeOperation(
+        address asset,
+        uint256 amount,
+        uint256 premium,
+        address initiator,
+        bytes calldata userData
+    ) external returns (bool) {
+        require(msg.sender == address(AAVE_POOL), "Unauthorized flash loan callback");
+        // Anyone can name this contract as the receiver of their own flashLoanSimple
+        require(initiator == address(this), "Unauthorized flash loan initiator");
+        
+        ArbitrageParams memory params = abi.decode(userData, (ArbitrageParams));
+        
+        uint256 profit = _performArbitrage(IERC20(asset), amount, params);
+        
+        if (profit < premium + params.minProfit) {
+            revert InsufficientProfit();
+        }
+        
+        OZIERC20(asset).safeApprove(address(AAVE_POOL), amount + premium);
+        
+        _emitArbitrageExecuted(params, profit - premium);
+        
+        return true;
+    }
+    
+    function _emitArbitrageExecuted(ArbitrageParams memory params, uint256 profit) internal {
+        SwapStep memory firstStep = params.steps[0];
         emit ArbitrageExecuted(
             params.tokenA,
-            params.tokenB,
+            firstStep.tokenOut,
             params.amount,
             profit,
-            params.sourceExchange,
-            params.targetExchange
+            firstStep.dex,
+            params.steps[params.steps.length - 1].dex
         );
     }
     
+    // Steps must chain token to token and return to tokenA through approved targets
+    function _validateRoute(ArbitrageParams memory params) internal view {
+        uint256 stepCount = params.steps.length;
+        if (stepCount < 2) {
+            revert InvalidRoute();
+        }
+        
+        address expectedTokenIn = params.tokenA;
+        for (uint256 i = 0; i < stepCount; i++) {
+            SwapStep memory step = params.steps[i];
+            if (step.tokenIn != expectedTokenIn) {
+                revert InvalidRoute();
+            }
+            if (!approvedTargets[step.target]) {
+                revert UnapprovedTarget(step.target);
+            }
+            expectedTokenIn = step.tokenOut;
+        }
+        
+        if (expectedTokenIn != params.tokenA) {
+            revert InvalidRoute();
+        }
+    }
+    
     function _performArbitrage(
         IERC20 token,
         uint256 amount,
@@ -170,35 +399,9 @@ contract FlashArbitrageBot is IFlashLoanRecipient, ReentrancyGuard, Ownable, Pau
     ) internal returns (uint256 profit) {
         uint256 balanceBefore = OZIERC20(address(token)).balanceOf(address(this));
         
-        uint256 intermediateAmount;
-        if (params.sourceExchange == uint8(Exchange.UNISWAP)) {
-            intermediateAmount = _swapOnUniswap(
-                params.tokenA,
-                params.tokenB,
-                amount,
-                params.uniswapFee
-            );
-        } else if (params.sourceExchange == uint8(Exchange.QUICKSWAP)) {
-            intermediateAmount = _swapOnQuickSwap(
-                params.quickswapPath,
-                amount
-            );
-        }
-        
-        uint256 finalAmount;
-        if (params.targetExchange == uint8(Exchange.UNISWAP)) {
-            finalAmount = _swapOnUniswap(
-                params.tokenB,
-                params.tokenA,
-                intermediateAmount,
-                params.uniswapFee
-            );
-        } else if (params.targetExchange == uint8(Exchange.QUICKSWAP)) {
-            address[] memory reversePath = new address[](params.quickswapPath.length);
-            for (uint i = 0; i < params.quickswapPath.length; i++) {
-                reversePath[i] = params.quickswapPath[params.quickswapPath.length - 1 - i];
-            }
-            finalAmount = _swapOnQuickSwap(reversePath, intermediateAmount);
+        uint256 stepAmount = amount;
+        for (uint256 i = 0; i < params.steps.length; i++) {
+            stepAmount = _executeStep(params.steps[i], stepAmount);
         }
         
         uint256 balanceAfter = OZIERC20(address(token)).balanceOf(address(this));
@@ -207,13 +410,35 @@ contract FlashArbitrageBot is IFlashLoanRecipient, ReentrancyGuard, Ownable, Pau
         return profit;
     }
     
+    function _executeStep(SwapStep memory step, uint256 amountIn) internal returns (uint256 amountOut) {
+        if (step.dex == uint8(Exchange.UNISWAP)) {
+            amountOut = _swapOnUniswap(step.target, step.tokenIn, step.tokenOut, amountIn, step.fee, step.minOut);
+        } else if (step.dex == uint8(Exchange.QUICKSWAP) || step.dex == uint8(Exchange.SUSHISWAP)) {
+            amountOut = _swapOnV2Router(step.target, step.tokenIn, step.tokenOut, amountIn, step.minOut);
+        } else if (step.dex == uint8(Exchange.CURVE)) {
+            amountOut = _swapOnCurve(step.target, step.tokenIn, step.tokenOut, amountIn, step.minOut);
+        } else if (step.dex == uint8(Exchange.QUICKSWAP_V3)) {
+            amountOut = _swapOnAlgebra(step.target, step.tokenIn, step.tokenOut, amountIn, step.minOut);
+        } else {
+            // Balancer swaps cannot run while the Vault is locked by the flash loan
+            revert UnsupportedExchange(step.dex);
+        }
+        
+        // Routers enforce minOut already; this also covers pools that report their output
+        if (amountOut < step.minOut) {
+            revert SlippageExceeded();
+        }
+    }
+    
     function _swapOnUniswap(
+        address router,
         address tokenIn,
         address tokenOut,
         uint256 amountIn,
-        uint24 fee
+        uint24 fee,
+        uint256 minOut
     ) internal returns (uint256 amountOut) {
-        OZIERC20(tokenIn).safeApprove(UNISWAP_ROUTER, amountIn);
+        OZIERC20(tokenIn).safeApprove(router, amountIn);
         
         IUniswapV3Router.ExactInputSingleParams memory params = IUniswapV3Router
             .ExactInputSingleParams({
@@ -223,23 +448,55 @@ contract FlashArbitrageBot is IFlashLoanRecipient, ReentrancyGuard, Ownable, Pau
                 recipient: address(this),
                 deadline: block.timestamp + 300,
                 amountIn: amountIn,
-                amountOutMinimum: 0,
+                amountOutMinimum: minOut,
                 sqrtPriceLimitX96: 0
             });
         
-        amountOut = IUniswapV3Router(UNISWAP_ROUTER).exactInputSingle(params);
+        amountOut = IUniswapV3Router(router).exactInputSingle(params);
+    }
+    
+    // QuickSwap V3 (Algebra) pools have a single dynamic fee, so no tier is passed
+    function _swapOnAlgebra(
+        address router,
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 minOut
+    ) internal returns (uint256 amountOut) {
+        OZIERC20(tokenIn).safeApprove(router, amountIn);
+        
+        IAlgebraRouter.ExactInputSingleParams memory params = IAlgebraRouter
+            .ExactInputSingleParams({
+                tokenIn: tokenIn,
+                tokenOut: tokenOut,
+                recipient: address(this),
+                deadline: block.timestamp + 300,
+                amountIn: amountIn,
+                amountOutMinimum: minOut,
+                limitSqrtPrice: 0
+            });
+        
+        amountOut = IAlgebraRouter(router).exactInputSingle(params);
     }
     
-    function _swapOnQuickSwap(
-        address[] memory path,
-        uint256 amountIn
+    // QuickSwap, SushiSwap and other Uniswap V2 forks share the router interface
+    function _swapOnV2Router(
+        address router,
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 minOut
     ) internal returns (uint256 amountOut) {
-        OZIERC20(path[0]).safeApprove(QUICKSWAP_ROUTER, amountIn);
+        OZIERC20(tokenIn).safeApprove(router, amountIn);
+        
+        address[] memory path = new address[](2);
+        path[0] = tokenIn;
+        path[1] = tokenOut;
         
-        uint256[] memory amounts = IQuickSwapRouter(QUICKSWAP_ROUTER)
+        uint256[] memory amounts = IQuickSwapRouter(router)
             .swapExactTokensForTokens(
                 amountIn,
-                0,
+                minOut,
                 path,
                 address(this),
                 block.timestamp + 300
@@ -248,6 +505,37 @@ contract FlashArbitrageBot is IFlashLoanRecipient, ReentrancyGuard, Ownable, Pau
         amountOut = amounts[amounts.length - 1];
     }
     
+    // Swaps a lending pool's underlying coins (e.g. DAI, USDC.e, USDT on aave); the pool handles
+    // the deposit and withdrawal
+    function _swapOnCurve(
+        address pool,
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 minOut
+    ) internal returns (uint256 amountOut) {
+        int128 i = _curveCoinIndex(pool, tokenIn);
+        int128 j = _curveCoinIndex(pool, tokenOut);
+
+        OZIERC20(tokenIn).safeApprove(pool, amountIn);
+
+        amountOut = ICurveAavePool(pool).exchange_underlying(i, j, amountIn, minOut);
+    }
+
+    function _curveCoinIndex(address pool, address token) internal view returns (int128) {
+        for (uint256 k = 0; k < CURVE_MAX_COINS; k++) {
+            // underlying_coins reverts past the pool's last coin
+            try ICurveAavePool(pool).underlying_coins(k) returns (address coin) {
+                if (coin == token) {
+                    return int128(int256(k));
+                }
+            } catch {
+                break;
+            }
+        }
+        revert UnsupportedCurveCoin(token);
+    }
+    
     function emergencyStop() external onlyAuthorized {
         _pause();
         emit EmergencyStop(msg.sender, block.timestamp);
@@ -261,6 +549,10 @@ contract FlashArbitrageBot is IFlashLoanRecipient, ReentrancyGuard, Ownable, Pau
         authorizedCallers[caller] = authorized;
     }
     
+    function setApprovedTarget(address target, bool approved) external onlyOwner {
+        approvedTargets[target] = approved;
+    }
+    
     function setMaxTradeSize(uint256 _maxTradeSize) external onlyOwner {
         maxTradeSize = _maxTradeSize;
     }
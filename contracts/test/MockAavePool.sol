@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+interface IFlashLoanSimpleReceiver {
+    function executeOperation(
+        address asset,
+        uint256 amount,
+        uint256 premium,
+        address initiator,
+        bytes calldata params
+    ) external returns (bool);
+}
+
+// flashLoanSimple only. Tests install its code at the Pool address FlashArbitrageBot hardcodes,
+// so it keeps no state that a constructor would have to set.
+contract MockAavePool {
+    using SafeERC20 for IERC20;
+    
+    uint128 public FLASHLOAN_PREMIUM_TOTAL; // Basis points, like the real Pool
+    
+    function setFlashLoanPremium(uint128 premiumBps) external {
+        FLASHLOAN_PREMIUM_TOTAL = premiumBps;
+    }
+    
+    // Same flow as the real Pool: lend, call back, then pull amount plus premium
+    function flashLoanSimple(
+        address receiverAddress,
+        address asset,
+        uint256 amount,
+        bytes calldata params,
+        uint16
+    ) external {
+        // PercentageMath.percentMul rounds half up
+        uint256 premium = (amount * FLASHLOAN_PREMIUM_TOTAL + 5000) / 10000;
+        
+        IERC20(asset).safeTransfer(receiverAddress, amount);
+        
+        require(
+            IFlashLoanSimpleReceiver(receiverAddress).executeOperation(asset, amount, premium, msg.sender, params),
+            "INVALID_FLASHLOAN_EXECUTOR_RETURN"
+        );
+        
+        IERC20(asset).safeTransferFrom(receiverAddress, address(this), amount + premium);
+    }
+}
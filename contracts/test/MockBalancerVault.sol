@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@balancer-labs/v2-interfaces/contracts/vault/IFlashLoanRecipient.sol";
+
+// Flash loans only. Tests install its code at the Vault address FlashArbitrageBot hardcodes,
+// so it keeps no state that a constructor would have to set.
+contract MockBalancerVault {
+    uint256 public flashLoanFeeBps;
+    
+    function setFlashLoanFee(uint256 feeBps) external {
+        flashLoanFeeBps = feeBps;
+    }
+    
+    // Same contract as the real Vault: lend, call back, then require amounts plus fees returned
+    function flashLoan(
+        IFlashLoanRecipient recipient,
+        IERC20[] memory tokens,
+        uint256[] memory amounts,
+        bytes memory userData
+    ) external {
+        uint256[] memory feeAmounts = new uint256[](tokens.length);
+        uint256[] memory balancesBefore = new uint256[](tokens.length);
+        
+        for (uint256 i = 0; i < tokens.length; i++) {
+            balancesBefore[i] = tokens[i].balanceOf(address(this));
+            require(balancesBefore[i] >= amounts[i], "BAL#528"); // INSUFFICIENT_FLASH_LOAN_BALANCE
+            
+            feeAmounts[i] = (amounts[i] * flashLoanFeeBps) / 10000;
+            tokens[i].transfer(address(recipient), amounts[i]);
+        }
+        
+        recipient.receiveFlashLoan(tokens, amounts, feeAmounts, userData);
+        
+        for (uint256 i = 0; i < tokens.length; i++) {
+            // INSUFFICIENT_FLASH_LOAN_FEE_AMOUNT
+            require(tokens[i].balanceOf(address(this)) >= balancesBefore[i] + feeAmounts[i], "BAL#602");
+        }
+    }
+}
@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+// Constant-product pair with Uniswap V2's 0.3% fee and K check; seed it by transferring
+// both tokens in and calling sync
+contract MockUniswapV2Pair {
+    using SafeERC20 for IERC20;
+    
+    address public immutable token0;
+    address public immutable token1;
+    uint112 private reserve0;
+    uint112 private reserve1;
+    
+    constructor(address tokenA, address tokenB) {
+        (token0, token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+    }
+    
+    function getReserves() external view returns (uint112, uint112, uint32) {
+        return (reserve0, reserve1, uint32(block.timestamp));
+    }
+    
+    function sync() public {
+        reserve0 = uint112(IERC20(token0).balanceOf(address(this)));
+        reserve1 = uint112(IERC20(token1).balanceOf(address(this)));
+    }
+    
+    // Input must already have been transferred in, as the router does
+    function swap(uint256 amount0Out, uint256 amount1Out, address to) external {
+        require(amount0Out < reserve0 && amount1Out < reserve1, "UniswapV2: INSUFFICIENT_LIQUIDITY");
+        
+        if (amount0Out > 0) IERC20(token0).safeTransfer(to, amount0Out);
+        if (amount1Out > 0) IERC20(token1).safeTransfer(to, amount1Out);
+        
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        uint256 amount0In = balance0 > reserve0 - amount0Out ? balance0 - (reserve0 - amount0Out) : 0;
+        uint256 amount1In = balance1 > reserve1 - amount1Out ? balance1 - (reserve1 - amount1Out) : 0;
+        require(amount0In > 0 || amount1In > 0, "UniswapV2: INSUFFICIENT_INPUT_AMOUNT");
+        
+        uint256 balance0Adjusted = balance0 * 1000 - amount0In * 3;
+        uint256 balance1Adjusted = balance1 * 1000 - amount1In * 3;
+        require(
+            balance0Adjusted * balance1Adjusted >= uint256(reserve0) * uint256(reserve1) * 1000 ** 2,
+            "UniswapV2: K"
+        );
+        
+        sync();
+    }
+}
+
+// Router over registered pairs, quoting and swapping like UniswapV2Router02
+contract MockUniswapV2Router {
+    using SafeERC20 for IERC20;
+    
+    mapping(address => mapping(address => MockUniswapV2Pair)) public pairs;
+    
+    function addPair(MockUniswapV2Pair pair) external {
+        pairs[pair.token0()][pair.token1()] = pair;
+        pairs[pair.token1()][pair.token0()] = pair;
+    }
+    
+    function getAmountsOut(uint256 amountIn, address[] memory path)
+        public
+        view
+        returns (uint256[] memory amounts)
+    {
+        require(path.length >= 2, "UniswapV2Library: INVALID_PATH");
+        
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            (uint256 reserveIn, uint256 reserveOut) = _getReserves(path[i], path[i + 1]);
+            uint256 amountInWithFee = amounts[i] * 997;
+            amounts[i + 1] = (amountInWithFee * reserveOut) / (reserveIn * 1000 + amountInWithFee);
+        }
+    }
+    
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts) {
+        require(deadline >= block.timestamp, "UniswapV2Router: EXPIRED");
+        
+        amounts = getAmountsOut(amountIn, path);
+        require(amounts[amounts.length - 1] >= amountOutMin, "UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT");
+        
+        IERC20(path[0]).safeTransferFrom(msg.sender, address(_getPair(path[0], path[1])), amountIn);
+        
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            MockUniswapV2Pair pair = _getPair(path[i], path[i + 1]);
+            address recipient = i < path.length - 2 ? address(_getPair(path[i + 1], path[i + 2])) : to;
+            (uint256 amount0Out, uint256 amount1Out) = path[i] == pair.token0()
+                ? (uint256(0), amounts[i + 1])
+                : (amounts[i + 1], uint256(0));
+            pair.swap(amount0Out, amount1Out, recipient);
+        }
+    }
+    
+    function _getPair(address tokenA, address tokenB) internal view returns (MockUniswapV2Pair pair) {
+        pair = pairs[tokenA][tokenB];
+        require(address(pair) != address(0), "MockUniswapV2Router: no pair");
+    }
+    
+    function _getReserves(address tokenIn, address tokenOut)
+        internal
+        view
+        returns (uint256 reserveIn, uint256 reserveOut)
+    {
+        MockUniswapV2Pair pair = _getPair(tokenIn, tokenOut);
+        (uint112 reserve0, uint112 reserve1, ) = pair.getReserves();
+        (reserveIn, reserveOut) = tokenIn == pair.token0() ? (reserve0, reserve1) : (reserve1, reserve0);
+    }
+}
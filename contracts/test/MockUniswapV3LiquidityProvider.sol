@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+interface IUniswapV3PoolMint {
+    function token0() external view returns (address);
+    function token1() external view returns (address);
+    function mint(address recipient, int24 tickLower, int24 tickUpper, uint128 amount, bytes calldata data)
+        external returns (uint256 amount0, uint256 amount1);
+}
+
+// Adds liquidity to a real Uniswap V3 pool on the local test network, paying from its own balance
+contract MockUniswapV3LiquidityProvider {
+    function mint(address pool, int24 tickLower, int24 tickUpper, uint128 amount) external {
+        IUniswapV3PoolMint(pool).mint(address(this), tickLower, tickUpper, amount, abi.encode(pool));
+    }
+
+    function uniswapV3MintCallback(uint256 amount0Owed, uint256 amount1Owed, bytes calldata data) external {
+        address pool = abi.decode(data, (address));
+        require(msg.sender == pool, "Unknown pool");
+
+        if (amount0Owed > 0) IERC20(IUniswapV3PoolMint(pool).token0()).transfer(pool, amount0Owed);
+        if (amount1Owed > 0) IERC20(IUniswapV3PoolMint(pool).token1()).transfer(pool, amount1Owed);
+    }
+}
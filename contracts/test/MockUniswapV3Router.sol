@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+// Swaps at fixed rates out of its own balance; fund it with every token it pays out
+contract MockUniswapV3Router {
+    using SafeERC20 for IERC20;
+    
+    struct ExactInputSingleParams {
+        address tokenIn;
+        address tokenOut;
+        uint24 fee;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+        uint160 sqrtPriceLimitX96;
+    }
+    
+    // tokenOut paid per tokenIn, scaled by 1e18
+    mapping(address => mapping(address => uint256)) public rates;
+    uint24 public lastFee;
+    
+    function setRate(address tokenIn, address tokenOut, uint256 rate) external {
+        rates[tokenIn][tokenOut] = rate;
+    }
+    
+    function exactInputSingle(ExactInputSingleParams calldata params)
+        external
+        payable
+        returns (uint256 amountOut)
+    {
+        require(block.timestamp <= params.deadline, "Transaction too old");
+        
+        amountOut = (params.amountIn * rates[params.tokenIn][params.tokenOut]) / 1e18;
+        require(amountOut >= params.amountOutMinimum, "Too little received");
+        
+        lastFee = params.fee;
+        IERC20(params.tokenIn).safeTransferFrom(msg.sender, address(this), params.amountIn);
+        IERC20(params.tokenOut).safeTransfer(params.recipient, amountOut);
+    }
+}
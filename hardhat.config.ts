@@ -1,6 +1,7 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomiclabs/hardhat-ethers";
 import "@nomiclabs/hardhat-waffle";
+import "@typechain/hardhat";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -35,6 +36,11 @@ const config: HardhatUserConfig = {
     cache: "./cache",
     artifacts: "./artifacts",
   },
+  typechain: {
+    // Generated on every compile so the bot's contract bindings always match the Solidity
+    outDir: "src/typechain",
+    target: "ethers-v5",
+  },
 };
 
 export default config;
\ No newline at end of file
@@ -0,0 +1,8 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  // Unit tests sit next to the code under src/; test/ holds the Hardhat contract tests run by mocha
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  restoreMocks: true,
+};
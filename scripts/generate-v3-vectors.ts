@@ -0,0 +1,157 @@
+import { ethers } from "hardhat";
+import { BigNumber, Contract } from "ethers";
+import { writeFileSync } from "fs";
+import path from "path";
+import { TickMath } from "@uniswap/v3-sdk";
+import UniswapV3FactoryArtifact from "@uniswap/v3-core/artifacts/contracts/UniswapV3Factory.sol/UniswapV3Factory.json";
+import UniswapV3PoolArtifact from "@uniswap/v3-core/artifacts/contracts/UniswapV3Pool.sol/UniswapV3Pool.json";
+import QuoterV2Artifact from "@uniswap/v3-periphery/artifacts/contracts/lens/QuoterV2.sol/QuoterV2.json";
+import { getInitializedTicks, getTickBitmapWords } from "../src/exchanges/math/ConcentratedLiquidity";
+
+// Regenerates src/exchanges/math/__fixtures__/uniswapV3Vectors.json, the expected outputs the local
+// V3 swap loop is tested against. Runs on the in-process Hardhat network against the real
+// Uniswap V3 pool and QuoterV2 bytecode:
+//   npx hardhat run scripts/generate-v3-vectors.ts
+
+const OUTPUT_PATH = path.join(__dirname, "../src/exchanges/math/__fixtures__/uniswapV3Vectors.json");
+
+// Same window UniswapV3Exchange loads: two bitmap words either side of the current tick
+const TICK_WORD_RADIUS = 2;
+
+// Positions in tick spacings around the starting tick; overlapping ranges so swaps cross
+// ticks where liquidity is both added and removed
+const POSITIONS = [
+  { lower: -200, upper: 200, liquidity: "2000000000000000" },
+  { lower: -10, upper: 10, liquidity: "30000000000000000" },
+  { lower: 20, upper: 60, liquidity: "15000000000000000" },
+  { lower: -60, upper: -25, liquidity: "15000000000000000" },
+  { lower: -120, upper: 90, liquidity: "5000000000000000" },
+];
+
+// Starting ticks near 2,000 USDC per WETH, for WETH as token0; negated when USDC sorts first
+const POOLS = [
+  { fee: 3000, startTick: -201000 },
+  { fee: 500, startTick: -200310 },
+];
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+
+  const tokenFactory = await ethers.getContractFactory("MockERC20", deployer);
+  const weth = await tokenFactory.deploy("Wrapped Ether", "WETH", 18);
+  const usdc = await tokenFactory.deploy("USD Coin", "USDC", 6);
+  const [token0, token1] = weth.address.toLowerCase() < usdc.address.toLowerCase() ? [weth, usdc] : [usdc, weth];
+
+  const factory = await new ethers.ContractFactory(UniswapV3FactoryArtifact.abi, UniswapV3FactoryArtifact.bytecode, deployer).deploy();
+  const quoter = await new ethers.ContractFactory(QuoterV2Artifact.abi, QuoterV2Artifact.bytecode, deployer)
+    .deploy(factory.address, weth.address);
+  const liquidityProvider = await (await ethers.getContractFactory("MockUniswapV3LiquidityProvider", deployer)).deploy();
+
+  const supply = BigNumber.from(10).pow(36);
+  await token0.mint(liquidityProvider.address, supply);
+  await token1.mint(liquidityProvider.address, supply);
+
+  const pools = [];
+
+  for (const { fee, startTick } of POOLS) {
+    await factory.createPool(token0.address, token1.address, fee);
+    const pool = new ethers.Contract(await factory.getPool(token0.address, token1.address, fee), UniswapV3PoolArtifact.abi, deployer);
+    const tickSpacing: number = await pool.tickSpacing();
+    const centerTick = Math.floor((token0 === weth ? startTick : -startTick) / tickSpacing) * tickSpacing;
+
+    await pool.initialize(TickMath.getSqrtRatioAtTick(centerTick).toString());
+    for (const position of POSITIONS) {
+      await liquidityProvider.mint(
+        pool.address,
+        centerTick + position.lower * tickSpacing,
+        centerTick + position.upper * tickSpacing,
+        position.liquidity
+      );
+    }
+
+    const snapshot = await readSnapshot(pool, fee, tickSpacing);
+    const quotes = [];
+
+    // Prices at the inner edges of the outermost loaded words
+    const sqrtRatioAt = (word: number) => BigNumber.from(TickMath.getSqrtRatioAtTick(word * 256 * tickSpacing).toString());
+    const windowLow = sqrtRatioAt(snapshot.minWord + 1);
+    const windowHigh = sqrtRatioAt(snapshot.maxWord);
+
+    for (const zeroForOne of [true, false]) {
+      const [tokenIn, tokenOut] = zeroForOne ? [token0, token1] : [token1, token0];
+      const decimals = await tokenIn.decimals();
+
+      // From dust up to swaps that cross every position boundary on that side
+      for (const units of ["0.001", "0.5", "3", "10", "20", "40", "80", "150"]) {
+        const amountIn = ethers.utils.parseUnits(units, decimals).mul(tokenIn === usdc ? 2000 : 1);
+
+        try {
+          const quote = await quoter.callStatic.quoteExactInputSingle({
+            tokenIn: tokenIn.address,
+            tokenOut: tokenOut.address,
+            amountIn,
+            fee,
+            sqrtPriceLimitX96: 0,
+          });
+
+          // Only swaps that end inside the loaded words; the local loop throws past them by design
+          if (quote.sqrtPriceX96After.lte(windowLow) || quote.sqrtPriceX96After.gte(windowHigh)) {
+            continue;
+          }
+
+          quotes.push({
+            zeroForOne,
+            amountIn: amountIn.toString(),
+            amountOut: quote.amountOut.toString(),
+            ticksCrossed: quote.initializedTicksCrossed,
+          });
+        } catch (error: any) {
+          console.warn(`Quote of ${units} failed on the ${fee} pool:`, error.message || error);
+        }
+      }
+    }
+
+    console.log(`Fee ${fee}: ${snapshot.ticks.length} initialized ticks, ${quotes.length} quotes`);
+    pools.push({ ...snapshot, quotes });
+  }
+
+  const vectors = {
+    token0: { address: token0.address, decimals: await token0.decimals(), symbol: await token0.symbol() },
+    token1: { address: token1.address, decimals: await token1.decimals(), symbol: await token1.symbol() },
+    pools,
+  };
+
+  writeFileSync(OUTPUT_PATH, JSON.stringify(vectors, null, 2) + "\n");
+  console.log(`Wrote ${OUTPUT_PATH}`);
+}
+
+// The same reads UniswapV3Exchange.loadPoolState makes
+async function readSnapshot(pool: Contract, fee: number, tickSpacing: number) {
+  const [slot0, liquidity] = await Promise.all([pool.slot0(), pool.liquidity()]);
+  const words = getTickBitmapWords(slot0.tick, tickSpacing, TICK_WORD_RADIUS);
+  const bitmaps: BigNumber[] = await Promise.all(words.map(word => pool.tickBitmap(word)));
+
+  const tickIndexes = words.flatMap((word, i) => getInitializedTicks(word, bitmaps[i], tickSpacing));
+  const ticks = await Promise.all(tickIndexes.map(async index => ({
+    index,
+    liquidityNet: (await pool.ticks(index)).liquidityNet.toString(),
+  })));
+
+  return {
+    fee,
+    tickSpacing,
+    sqrtPriceX96: slot0.sqrtPriceX96.toString(),
+    liquidity: liquidity.toString(),
+    tick: slot0.tick as number,
+    ticks: ticks.sort((a, b) => a.index - b.index),
+    minWord: words[0],
+    maxWord: words[words.length - 1],
+  };
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,160 @@
+import { ethers, BigNumber, BigNumberish } from 'ethers';
+import { FlashArbitrageBot, FlashArbitrageBot__factory } from '../typechain';
+import { TypedEvent } from '../typechain/common';
+import {
+  ArbitrageExecutedEvent,
+  EmergencyStopEvent,
+  FlashArbitrageBotInterface
+} from '../typechain/contracts/FlashArbitrageBot.sol/FlashArbitrageBot';
+
+export type ArbitrageParamsStruct = FlashArbitrageBot.ArbitrageParamsStruct;
+export type SwapStepStruct = FlashArbitrageBot.SwapStepStruct;
+export type ArbitrageExecutedArgs = ArbitrageExecutedEvent['args'];
+export type EmergencyStopArgs = EmergencyStopEvent['args'];
+
+// A parsed log whose args are typed like the typechain event's, by position and by name
+type TypedLogDescription<TEvent extends TypedEvent> = ethers.utils.LogDescription & { args: TEvent['args'] };
+
+export interface ContractError {
+  name: string; // Custom error as declared in FlashArbitrageBot.sol, e.g. 'SlippageExceeded'
+  args: ethers.utils.Result;
+}
+
+// Typed from the Hardhat artifact (npm run compile-contracts), so a changed signature fails the type-check
+const FLASH_ARBITRAGE_BOT_INTERFACE: FlashArbitrageBotInterface = FlashArbitrageBot__factory.createInterface();
+
+export function getFlashArbitrageBotInterface(): FlashArbitrageBotInterface {
+  return FLASH_ARBITRAGE_BOT_INTERFACE;
+}
+
+// The interface decodes args from the event's ABI fragment, so matching the name is enough
+function isEventLog<TEvent extends TypedEvent>(
+  description: ethers.utils.LogDescription,
+  eventName: string
+): description is TypedLogDescription<TEvent> {
+  return description.name === eventName;
+}
+
+// Custom error behind a revert payload, or undefined for Error(string), panics and foreign errors
+export function decodeContractError(revertData: string): ContractError | undefined {
+  try {
+    const parsed = FLASH_ARBITRAGE_BOT_INTERFACE.parseError(revertData);
+    return { name: parsed.name, args: parsed.args };
+  } catch (error) {
+    return undefined;
+  }
+}
+
+export class FlashArbitrageBotClient {
+  readonly contract: FlashArbitrageBot;
+
+  constructor(address: string, signerOrProvider: ethers.Signer | ethers.providers.Provider) {
+    if (!ethers.utils.isAddress(address)) {
+      throw new Error(`Invalid FlashArbitrageBot address: ${address}`);
+    }
+
+    this.contract = FlashArbitrageBot__factory.connect(address, signerOrProvider);
+  }
+
+  get address(): string {
+    return this.contract.address;
+  }
+
+  get interface(): FlashArbitrageBotInterface {
+    return this.contract.interface;
+  }
+
+  // Flash-loans params.amount of params.tokenA from the Balancer Vault and runs params.steps; tokens
+  // and amounts must be exactly [params.tokenA] and [params.amount]
+  executeArbitrage(
+    tokens: string[],
+    amounts: BigNumberish[],
+    params: ArbitrageParamsStruct,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransaction> {
+    return this.contract.executeArbitrage(tokens, amounts, params, overrides);
+  }
+
+  populateExecuteArbitrage(
+    tokens: string[],
+    amounts: BigNumberish[],
+    params: ArbitrageParamsStruct
+  ): Promise<ethers.PopulatedTransaction> {
+    return this.contract.populateTransaction.executeArbitrage(tokens, amounts, params);
+  }
+
+  // Same route borrowed from Aave V3; params.minProfit is what must remain after the premium
+  populateExecuteAaveArbitrage(params: ArbitrageParamsStruct): Promise<ethers.PopulatedTransaction> {
+    return this.contract.populateTransaction.executeAaveArbitrage(params);
+  }
+
+  populateExecuteBalancerArbitrage(
+    tokenA: string,
+    tokenB: string,
+    amount: BigNumberish,
+    minProfit: BigNumberish,
+    buyPoolId: string,
+    sellPoolId: string
+  ): Promise<ethers.PopulatedTransaction> {
+    return this.contract.populateTransaction.executeBalancerArbitrage(tokenA, tokenB, amount, minProfit, buyPoolId, sellPoolId);
+  }
+
+  emergencyStop(overrides: ethers.Overrides = {}): Promise<ethers.ContractTransaction> {
+    return this.contract.emergencyStop(overrides);
+  }
+
+  resume(overrides: ethers.Overrides = {}): Promise<ethers.ContractTransaction> {
+    return this.contract.resume(overrides);
+  }
+
+  setAuthorizedCaller(caller: string, authorized: boolean, overrides: ethers.Overrides = {}): Promise<ethers.ContractTransaction> {
+    return this.contract.setAuthorizedCaller(caller, authorized, overrides);
+  }
+
+  setMaxTradeSize(maxTradeSize: BigNumberish, overrides: ethers.Overrides = {}): Promise<ethers.ContractTransaction> {
+    return this.contract.setMaxTradeSize(maxTradeSize, overrides);
+  }
+
+  setMinProfitThreshold(minProfitThreshold: BigNumberish, overrides: ethers.Overrides = {}): Promise<ethers.ContractTransaction> {
+    return this.contract.setMinProfitThreshold(minProfitThreshold, overrides);
+  }
+
+  // Sends amount of a token held by the contract to the owner
+  withdrawToken(token: string, amount: BigNumberish, overrides: ethers.Overrides = {}): Promise<ethers.ContractTransaction> {
+    return this.contract.withdrawToken(token, amount, overrides);
+  }
+
+  getMinProfitThreshold(): Promise<BigNumber> {
+    return this.contract.minProfitThreshold();
+  }
+
+  getMaxTradeSize(): Promise<BigNumber> {
+    return this.contract.maxTradeSize();
+  }
+
+  isPaused(): Promise<boolean> {
+    return this.contract.paused();
+  }
+
+  parseArbitrageExecuted(receipt: ethers.providers.TransactionReceipt): ArbitrageExecutedArgs[] {
+    return this.parseEvents<ArbitrageExecutedEvent>(receipt, 'ArbitrageExecuted');
+  }
+
+  parseEmergencyStop(receipt: ethers.providers.TransactionReceipt): EmergencyStopArgs[] {
+    return this.parseEvents<EmergencyStopEvent>(receipt, 'EmergencyStop');
+  }
+
+  // Only logs emitted by this contract; the Vault and routers log into the same receipt
+  private parseEvents<TEvent extends TypedEvent>(
+    receipt: ethers.providers.TransactionReceipt,
+    eventName: string
+  ): TEvent['args'][] {
+    const topic = this.interface.getEventTopic(eventName);
+
+    return receipt.logs
+      .filter(log => log.address.toLowerCase() === this.address.toLowerCase() && log.topics[0] === topic)
+      .map(log => this.interface.parseLog(log))
+      .filter((description): description is TypedLogDescription<TEvent> => isEventLog<TEvent>(description, eventName))
+      .map(description => description.args);
+  }
+}
@@ -0,0 +1,255 @@
+import { ethers, BigNumber } from 'ethers';
+import axios from 'axios';
+import { BaseExchange } from './BaseExchange';
+import { QuoteResult, TokenInfo, TOKENS } from '../types';
+
+const BALANCER_VAULT_ABI = [
+  'function getPoolTokens(bytes32 poolId) external view returns (address[] tokens, uint256[] balances, uint256 lastChangeBlock)',
+  'function queryBatchSwap(uint8 kind, tuple(bytes32 poolId, uint256 assetInIndex, uint256 assetOutIndex, uint256 amount, bytes userData)[] swaps, address[] assets, tuple(address sender, bool fromInternalBalance, address recipient, bool toInternalBalance) funds) external returns (int256[] assetDeltas)',
+  'function swap(tuple(bytes32 poolId, uint8 kind, address assetIn, address assetOut, uint256 amount, bytes userData) singleSwap, tuple(address sender, bool fromInternalBalance, address recipient, bool toInternalBalance) funds, uint256 limit, uint256 deadline) external payable returns (uint256)'
+];
+
+const BALANCER_API_URL = 'https://api-v3.balancer.fi/';
+
+// Pool types whose swaps the Vault quotes without extra userData
+const SUPPORTED_POOL_TYPES = ['WEIGHTED', 'STABLE', 'COMPOSABLE_STABLE', 'META_STABLE'];
+
+const SWAP_KIND_GIVEN_IN = 0;
+
+// Gas for a single Vault swap through a weighted or stable pool, matching GasManager's Balancer estimate
+const SWAP_GAS_ESTIMATE = 160000;
+
+// Pools are re-discovered hourly; new pools for our tokens are rare
+const POOL_DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const POOL_DISCOVERY_RETRY_MS = 60 * 1000;
+
+export interface BalancerPool {
+  id: string;
+  type: string;
+  tokens: string[]; // Lowercased token addresses as registered in the Vault
+}
+
+// Balancer V2 weighted and stable pools on Polygon, all held by the Vault
+export class BalancerExchange extends BaseExchange {
+  private vaultContract: ethers.Contract;
+  private tokens: TokenInfo[];
+  private pools: BalancerPool[] = [];
+  private nextDiscoveryAt = 0;
+  private pendingDiscovery?: Promise<BalancerPool[]>;
+
+  constructor(
+    provider: ethers.providers.Provider,
+    vaultAddress: string,
+    tokens: TokenInfo[] = Object.values(TOKENS)
+  ) {
+    super(provider, 'Balancer', vaultAddress);
+    this.vaultContract = new ethers.Contract(vaultAddress, BALANCER_VAULT_ABI, provider);
+    this.tokens = tokens;
+  }
+
+  // Best quote across every discovered pool holding both tokens
+  async getQuote(
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: BigNumber,
+    timeout: number = 5000
+  ): Promise<QuoteResult> {
+    if (!tokenIn.address || !tokenOut.address || amountIn.lte(0)) {
+      throw new Error('Invalid input parameters for quote');
+    }
+
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const pools = await this.getPoolsForPair(tokenIn, tokenOut);
+      if (pools.length === 0) {
+        throw new Error('No pool for pair');
+      }
+
+      const quotes = await Promise.race([
+        Promise.allSettled(pools.map(pool => this.queryPool(pool.id, tokenIn, tokenOut, amountIn))),
+        new Promise<never>((_, reject) => {
+          timeoutHandle = setTimeout(() => reject(new Error(`Balancer quote timeout after ${timeout}ms`)), timeout);
+        })
+      ]);
+
+      let best: QuoteResult | undefined;
+      for (const result of quotes) {
+        if (result.status === 'fulfilled' && (!best || result.value.amountOut.gt(best.amountOut))) {
+          best = result.value;
+        }
+      }
+
+      if (!best || best.amountOut.isZero()) {
+        throw new Error('Insufficient liquidity');
+      }
+
+      return best;
+    } catch (error: any) {
+      throw new Error(`Balancer quote failed for ${tokenIn.symbol} -> ${tokenOut.symbol}: ${error.message || error}`);
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+  }
+
+  // Quote through one specific pool, e.g. to re-price a leg that was found on that pool
+  async getPoolQuote(
+    poolId: string,
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: BigNumber
+  ): Promise<QuoteResult> {
+    if (amountIn.lte(0)) {
+      throw new Error('Invalid input parameters for quote');
+    }
+
+    const quote = await this.queryPool(poolId, tokenIn, tokenOut, amountIn);
+    if (quote.amountOut.isZero()) {
+      throw new Error('Insufficient liquidity');
+    }
+
+    return quote;
+  }
+
+  async executeSwap(
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: BigNumber,
+    amountOutMin: BigNumber,
+    recipient: string,
+    deadline: number
+  ): Promise<ethers.ContractTransaction> {
+    const { poolId } = await this.getQuote(tokenIn, tokenOut, amountIn);
+
+    return this.vaultContract.swap(
+      {
+        poolId,
+        kind: SWAP_KIND_GIVEN_IN,
+        assetIn: tokenIn.address,
+        assetOut: tokenOut.address,
+        amount: amountIn,
+        userData: '0x'
+      },
+      // The Vault only pulls from msg.sender, so the recipient is trading for its own account
+      { sender: recipient, fromInternalBalance: false, recipient, toInternalBalance: false },
+      amountOutMin,
+      deadline
+    );
+  }
+
+  getPools(): BalancerPool[] {
+    return [...this.pools];
+  }
+
+  // Vault.queryBatchSwap runs the pool's own swap math; deltas are positive in, negative out
+  private async queryPool(poolId: string, tokenIn: TokenInfo, tokenOut: TokenInfo, amountIn: BigNumber): Promise<QuoteResult> {
+    const blockNumber = this.blockNumber;
+    const deltas: BigNumber[] = await this.vaultContract.callStatic.queryBatchSwap(
+      SWAP_KIND_GIVEN_IN,
+      [{ poolId, assetInIndex: 0, assetOutIndex: 1, amount: amountIn, userData: '0x' }],
+      [tokenIn.address, tokenOut.address],
+      {
+        sender: ethers.constants.AddressZero,
+        fromInternalBalance: false,
+        recipient: ethers.constants.AddressZero,
+        toInternalBalance: false
+      },
+      this.getBlockTagOverrides(blockNumber)
+    );
+
+    return {
+      dex: this.name,
+      amountIn,
+      amountOut: deltas[1].mul(-1),
+      gasEstimate: BigNumber.from(SWAP_GAS_ESTIMATE),
+      priceImpact: 0,
+      route: [tokenIn.address, tokenOut.address],
+      poolId,
+      blockNumber
+    };
+  }
+
+  private async getPoolsForPair(tokenIn: TokenInfo, tokenOut: TokenInfo): Promise<BalancerPool[]> {
+    const pools = await this.discoverPools();
+    const addressIn = tokenIn.address.toLowerCase();
+    const addressOut = tokenOut.address.toLowerCase();
+
+    return pools.filter(pool => pool.tokens.includes(addressIn) && pool.tokens.includes(addressOut));
+  }
+
+  private async discoverPools(): Promise<BalancerPool[]> {
+    if (Date.now() < this.nextDiscoveryAt) {
+      return this.pools;
+    }
+
+    // Concurrent quotes share one discovery
+    if (!this.pendingDiscovery) {
+      this.pendingDiscovery = this.loadPools()
+        .then(pools => {
+          this.pools = pools;
+          this.nextDiscoveryAt = Date.now() + POOL_DISCOVERY_TTL_MS;
+          console.log(`Discovered ${pools.length} Balancer pools`);
+          return pools;
+        })
+        .catch(error => {
+          // Keep quoting from the previous discovery rather than dropping the venue
+          console.warn(`Balancer pool discovery failed: ${error.message || error}`);
+          this.nextDiscoveryAt = Date.now() + POOL_DISCOVERY_RETRY_MS;
+          return this.pools;
+        })
+        .finally(() => {
+          this.pendingDiscovery = undefined;
+        });
+    }
+
+    return this.pendingDiscovery;
+  }
+
+  // Pool ids come from the Balancer API; token lists are read from the Vault so the API is never trusted for routing
+  private async loadPools(): Promise<BalancerPool[]> {
+    const query = `{
+      poolGetPools(
+        first: 100,
+        orderBy: totalLiquidity,
+        orderDirection: desc,
+        where: {
+          chainIn: [POLYGON],
+          poolTypeIn: [${SUPPORTED_POOL_TYPES.join(', ')}],
+          tokensIn: [${this.tokens.map(token => `"${token.address.toLowerCase()}"`).join(', ')}]
+        }
+      ) { id type }
+    }`;
+
+    const response = await axios.post(BALANCER_API_URL, { query }, {
+      timeout: 10000,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ArbitrageBot/1.0'
+      }
+    });
+
+    const candidates: Array<{ id: string; type: string }> = response.data?.data?.poolGetPools;
+    if (!Array.isArray(candidates)) {
+      throw new Error('Invalid response structure from Balancer API');
+    }
+
+    const known = new Set(this.tokens.map(token => token.address.toLowerCase()));
+    const pools: BalancerPool[] = [];
+
+    for (const candidate of candidates) {
+      try {
+        const { tokens } = await this.vaultContract.getPoolTokens(candidate.id);
+        const addresses = (tokens as string[]).map(address => address.toLowerCase());
+
+        // Only pools with at least two of our tokens can serve a quote
+        if (addresses.filter(address => known.has(address)).length >= 2) {
+          pools.push({ id: candidate.id, type: candidate.type, tokens: addresses });
+        }
+      } catch (error: any) {
+        console.warn(`Skipping Balancer pool ${candidate.id}: ${error.message || error}`);
+      }
+    }
+
+    return pools;
+  }
+}
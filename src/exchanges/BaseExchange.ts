@@ -5,6 +5,7 @@ export abstract class BaseExchange {
   protected provider: ethers.providers.Provider;
   protected name: string;
   protected routerAddress: string;
+  protected blockNumber?: number;
 
   constructor(
     provider: ethers.providers.Provider,
@@ -40,6 +41,16 @@ export abstract class BaseExchange {
     return this.routerAddress;
   }
 
+  // Latest block seen by the scanner; exchanges with local state refresh it when this moves
+  setBlockNumber(blockNumber: number): void {
+    this.blockNumber = blockNumber;
+  }
+
+  // Pins contract reads to the given block, or to the latest block when none is known
+  protected getBlockTagOverrides(blockNumber: number | undefined = this.blockNumber): { blockTag?: number } {
+    return blockNumber !== undefined ? { blockTag: blockNumber } : {};
+  }
+
   protected calculatePriceImpact(
     amountIn: BigNumber,
     amountOut: BigNumber,
@@ -0,0 +1,176 @@
+import { ethers, BigNumber } from 'ethers';
+import { BaseExchange } from './BaseExchange';
+import { StableSwapState, getDy } from './math/StableSwap';
+import { QuoteResult, TokenInfo, TOKENS } from '../types';
+
+const CURVE_POOL_ABI = [
+  'function A_precise() external view returns (uint256)',
+  'function fee() external view returns (uint256)',
+  'function offpeg_fee_multiplier() external view returns (uint256)',
+  'function balances(uint256 i) external view returns (uint256)',
+  'function get_dy_underlying(int128 i, int128 j, uint256 dx) external view returns (uint256)',
+  'function exchange_underlying(int128 i, int128 j, uint256 dx, uint256 min_dy) external returns (uint256)'
+];
+
+// Gas for a single exchange_underlying through the aave pool, matching GasManager's Curve estimate
+const SWAP_GAS_ESTIMATE = 350000;
+
+// Pool state lifetime when no block number has been provided (one Polygon block)
+const POOL_STATE_TTL_MS = 2000;
+
+interface CachedPoolState {
+  state: StableSwapState;
+  blockNumber?: number;
+  fetchedAt: number;
+}
+
+// Curve's aave StableSwap pool on Polygon: amDAI/amUSDC/amUSDT, traded through their underlying coins
+export class CurveExchange extends BaseExchange {
+  private poolContract: ethers.Contract;
+  private coins: TokenInfo[];
+  private cachedState?: CachedPoolState;
+  private pendingState?: Promise<CachedPoolState>;
+
+  constructor(
+    provider: ethers.providers.Provider,
+    poolAddress: string,
+    coins: TokenInfo[] = [TOKENS.DAI, TOKENS['USDC.e'], TOKENS.USDT]
+  ) {
+    super(provider, 'Curve', poolAddress);
+    this.poolContract = new ethers.Contract(poolAddress, CURVE_POOL_ABI, provider);
+    this.coins = coins;
+  }
+
+  async getQuote(
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: BigNumber,
+    timeout: number = 5000
+  ): Promise<QuoteResult> {
+    if (!tokenIn.address || !tokenOut.address || amountIn.lte(0)) {
+      throw new Error('Invalid input parameters for quote');
+    }
+
+    const i = this.getCoinIndex(tokenIn);
+    const j = this.getCoinIndex(tokenOut);
+
+    if (i < 0 || j < 0 || i === j) {
+      throw new Error(`No Curve pool for ${tokenIn.symbol}/${tokenOut.symbol}`);
+    }
+
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const { amountOut, blockNumber } = await Promise.race([
+        this.quoteUnderlying(i, j, amountIn),
+        new Promise<never>((_, reject) => {
+          timeoutHandle = setTimeout(() => reject(new Error(`Curve quote timeout after ${timeout}ms`)), timeout);
+        })
+      ]);
+
+      if (amountOut.isZero()) {
+        throw new Error('Insufficient liquidity');
+      }
+
+      return {
+        dex: this.name,
+        amountIn,
+        amountOut,
+        gasEstimate: BigNumber.from(SWAP_GAS_ESTIMATE),
+        priceImpact: 0,
+        route: [tokenIn.address, tokenOut.address],
+        blockNumber
+      };
+    } catch (error: any) {
+      throw new Error(`Curve quote failed for ${tokenIn.symbol} -> ${tokenOut.symbol}: ${error.message || error}`);
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+  }
+
+  async executeSwap(
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: BigNumber,
+    amountOutMin: BigNumber
+  ): Promise<ethers.ContractTransaction> {
+    // The pool takes no recipient or deadline; output always goes to the caller
+    return this.poolContract.exchange_underlying(
+      this.getCoinIndex(tokenIn),
+      this.getCoinIndex(tokenOut),
+      amountIn,
+      amountOutMin
+    );
+  }
+
+  // Stableswap math over the pool's state at the current block, falling back to get_dy_underlying
+  private async quoteUnderlying(i: number, j: number, amountIn: BigNumber): Promise<{ amountOut: BigNumber; blockNumber?: number }> {
+    try {
+      const { state, blockNumber } = await this.getPoolState();
+      return { amountOut: getDy(state, i, j, amountIn), blockNumber };
+    } catch (localError) {
+      // Pool state could not be loaded or the math did not converge; ask the pool instead
+    }
+
+    const blockNumber = this.blockNumber;
+    const amountOut: BigNumber = await this.poolContract.get_dy_underlying(i, j, amountIn, this.getBlockTagOverrides(blockNumber));
+
+    return { amountOut, blockNumber };
+  }
+
+  private async getPoolState(): Promise<CachedPoolState> {
+    if (this.cachedState && this.isFresh(this.cachedState)) {
+      return this.cachedState;
+    }
+
+    // Concurrent quotes share one load
+    if (!this.pendingState) {
+      this.pendingState = this.loadPoolState()
+        .then(state => {
+          this.cachedState = state;
+          return state;
+        })
+        .finally(() => {
+          this.pendingState = undefined;
+        });
+    }
+
+    return this.pendingState;
+  }
+
+  private async loadPoolState(): Promise<CachedPoolState> {
+    const blockNumber = this.blockNumber;
+    const overrides = this.getBlockTagOverrides(blockNumber);
+
+    const [amp, fee, offpegFeeMultiplier, ...balances] = await Promise.all([
+      this.poolContract.A_precise(overrides),
+      this.poolContract.fee(overrides),
+      this.poolContract.offpeg_fee_multiplier(overrides),
+      ...this.coins.map((_, k) => this.poolContract.balances(k, overrides))
+    ]);
+
+    return {
+      state: {
+        amp,
+        fee,
+        offpegFeeMultiplier,
+        balances,
+        precisionMultipliers: this.coins.map(coin => BigNumber.from(10).pow(18 - coin.decimals))
+      },
+      blockNumber,
+      fetchedAt: Date.now()
+    };
+  }
+
+  private isFresh(state: CachedPoolState): boolean {
+    // Block-driven scans refresh on every new block; without block numbers fall back to a block time
+    if (this.blockNumber !== undefined) {
+      return state.blockNumber === this.blockNumber;
+    }
+    return Date.now() - state.fetchedAt < POOL_STATE_TTL_MS;
+  }
+
+  private getCoinIndex(token: TokenInfo): number {
+    return this.coins.findIndex(coin => coin.address.toLowerCase() === token.address.toLowerCase());
+  }
+}
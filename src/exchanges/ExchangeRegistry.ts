@@ -0,0 +1,87 @@
+import { ethers } from 'ethers';
+import { BaseExchange } from './BaseExchange';
+import { UniswapV3Exchange } from './UniswapV3Exchange';
+import { UniswapV2Exchange } from './UniswapV2Exchange';
+import { QuickSwapV3Exchange } from './QuickSwapV3Exchange';
+import { CurveExchange } from './CurveExchange';
+import { BalancerExchange } from './BalancerExchange';
+import { V2_FEE_DENOMINATOR } from './math/ConstantProduct';
+import { ExchangeConfig, ExchangeType } from '../types';
+
+export type ExchangeFactory = (provider: ethers.providers.Provider, config: ExchangeConfig) => BaseExchange;
+
+// Builds exchange adapters from configuration, so a new venue of a known type needs no code
+export class ExchangeRegistry {
+  private factories: Map<ExchangeType, ExchangeFactory> = new Map();
+
+  constructor() {
+    this.register('uniswap-v3', (provider, config) => new UniswapV3Exchange(
+      provider,
+      config.router,
+      requireField(config, 'quoter'),
+      requireField(config, 'factory'),
+      config.feeTiers
+    ));
+
+    this.register('uniswap-v2-fork', (provider, config) => new UniswapV2Exchange(
+      provider,
+      config.name,
+      config.router,
+      requireField(config, 'factory'),
+      config.fee !== undefined ? V2_FEE_DENOMINATOR - config.fee : undefined
+    ));
+
+    this.register('algebra', (provider, config) => new QuickSwapV3Exchange(
+      provider,
+      config.router,
+      requireField(config, 'quoter'),
+      requireField(config, 'factory')
+    ));
+
+    this.register('curve', (provider, config) => new CurveExchange(provider, config.router));
+
+    this.register('balancer', (provider, config) => new BalancerExchange(provider, config.router));
+  }
+
+  // Replaces any adapter already registered for the type
+  register(type: ExchangeType, factory: ExchangeFactory): void {
+    this.factories.set(type, factory);
+  }
+
+  create(provider: ethers.providers.Provider, config: ExchangeConfig): BaseExchange {
+    const factory = this.factories.get(config.type);
+    if (!factory) {
+      throw new Error(`No adapter registered for exchange type '${config.type}' (${config.name})`);
+    }
+
+    return factory(provider, config);
+  }
+
+  // One adapter per enabled exchange, keyed like the configs; a bad config only loses its own exchange
+  createAll(provider: ethers.providers.Provider, configs: Record<string, ExchangeConfig>): Map<string, BaseExchange> {
+    const exchanges: Map<string, BaseExchange> = new Map();
+
+    for (const [key, config] of Object.entries(configs)) {
+      if (!config.enabled) {
+        continue;
+      }
+
+      try {
+        exchanges.set(key, this.create(provider, config));
+        console.log(`✅ ${config.name} exchange initialized`);
+      } catch (error: any) {
+        console.error(`Failed to initialize ${config.name} exchange:`, error.message || error);
+      }
+    }
+
+    return exchanges;
+  }
+}
+
+function requireField(config: ExchangeConfig, field: 'factory' | 'quoter'): string {
+  const value = config[field];
+  if (!value) {
+    throw new Error(`${config.name} (${config.type}) config is missing a ${field} address`);
+  }
+  return value;
+}
@@ -0,0 +1,140 @@
+import { ethers, BigNumber } from 'ethers';
+import { BaseExchange } from './BaseExchange';
+import { QuoteResult, TokenInfo } from '../types';
+
+const ALGEBRA_QUOTER_ABI = [
+  'function quoteExactInputSingle(address tokenIn, address tokenOut, uint256 amountIn, uint160 limitSqrtPrice) external returns (uint256 amountOut, uint16 fee)'
+];
+
+const ALGEBRA_ROUTER_ABI = [
+  'function exactInputSingle((address tokenIn, address tokenOut, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 limitSqrtPrice)) external payable returns (uint256 amountOut)'
+];
+
+const ALGEBRA_FACTORY_ABI = [
+  'function poolByPair(address tokenA, address tokenB) external view returns (address pool)'
+];
+
+// Gas for a single exactInputSingle swap, matching GasManager's QuickSwap V3 estimate
+const SWAP_GAS_ESTIMATE = 180000;
+
+// QuickSwap V3 runs on Algebra: one pool per pair, whose fee floats with volatility
+// (the pool's globalState fee) instead of a fixed tier
+export class QuickSwapV3Exchange extends BaseExchange {
+  private quoterContract: ethers.Contract;
+  private routerContract: ethers.Contract;
+  private factoryContract: ethers.Contract;
+  private poolCache: Map<string, string> = new Map(); // Pool addresses never change once deployed
+
+  constructor(
+    provider: ethers.providers.Provider,
+    routerAddress: string,
+    quoterAddress: string,
+    factoryAddress: string
+  ) {
+    super(provider, 'QuickSwap V3', routerAddress);
+    this.quoterContract = new ethers.Contract(quoterAddress, ALGEBRA_QUOTER_ABI, provider);
+    this.routerContract = new ethers.Contract(routerAddress, ALGEBRA_ROUTER_ABI, provider);
+    this.factoryContract = new ethers.Contract(factoryAddress, ALGEBRA_FACTORY_ABI, provider);
+  }
+
+  async getQuote(
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: BigNumber,
+    timeout: number = 5000
+  ): Promise<QuoteResult> {
+    if (!tokenIn.address || !tokenOut.address || amountIn.lte(0)) {
+      throw new Error('Invalid input parameters for quote');
+    }
+
+    if (tokenIn.address.toLowerCase() === tokenOut.address.toLowerCase()) {
+      throw new Error('Cannot quote for same token');
+    }
+
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const { amountOut, fee, blockNumber } = await Promise.race([
+        this.quoteExactInputSingle(tokenIn, tokenOut, amountIn),
+        new Promise<never>((_, reject) => {
+          timeoutHandle = setTimeout(() => reject(new Error(`QuickSwap V3 quote timeout after ${timeout}ms`)), timeout);
+        })
+      ]);
+
+      if (amountOut.isZero()) {
+        throw new Error('Insufficient liquidity');
+      }
+
+      return {
+        dex: this.name,
+        amountIn,
+        amountOut,
+        gasEstimate: BigNumber.from(SWAP_GAS_ESTIMATE),
+        priceImpact: 0,
+        route: [tokenIn.address, tokenOut.address],
+        fee,
+        blockNumber
+      };
+    } catch (error: any) {
+      throw new Error(`QuickSwap V3 quote failed for ${tokenIn.symbol} -> ${tokenOut.symbol}: ${error.message || error}`);
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+  }
+
+  async executeSwap(
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: BigNumber,
+    amountOutMin: BigNumber,
+    recipient: string,
+    deadline: number
+  ): Promise<ethers.ContractTransaction> {
+    // The pool charges whatever its fee is when the swap lands, so there is no tier to pick
+    return this.routerContract.exactInputSingle({
+      tokenIn: tokenIn.address,
+      tokenOut: tokenOut.address,
+      recipient,
+      deadline,
+      amountIn,
+      amountOutMinimum: amountOutMin,
+      limitSqrtPrice: 0
+    });
+  }
+
+  // The quoter reports the dynamic fee the swap paid alongside the output
+  private async quoteExactInputSingle(
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: BigNumber
+  ): Promise<{ amountOut: BigNumber; fee: number; blockNumber?: number }> {
+    const poolAddress = await this.getPoolAddress(tokenIn.address, tokenOut.address);
+    if (poolAddress === ethers.constants.AddressZero) {
+      throw new Error('No pool for pair');
+    }
+
+    const blockNumber = this.blockNumber;
+    const { amountOut, fee } = await this.quoterContract.callStatic.quoteExactInputSingle(
+      tokenIn.address,
+      tokenOut.address,
+      amountIn,
+      0,
+      this.getBlockTagOverrides(blockNumber)
+    );
+
+    return { amountOut, fee, blockNumber };
+  }
+
+  private async getPoolAddress(tokenA: string, tokenB: string): Promise<string> {
+    const [token0, token1] = tokenA.toLowerCase() < tokenB.toLowerCase()
+      ? [tokenA.toLowerCase(), tokenB.toLowerCase()]
+      : [tokenB.toLowerCase(), tokenA.toLowerCase()];
+    const cacheKey = `${token0}-${token1}`;
+
+    if (!this.poolCache.has(cacheKey)) {
+      this.poolCache.set(cacheKey, await this.factoryContract.poolByPair(token0, token1));
+    }
+
+    return this.poolCache.get(cacheKey)!;
+  }
+}
@@ -0,0 +1,202 @@
+import { ethers, BigNumber } from 'ethers';
+import { BaseExchange } from './BaseExchange';
+import { getAmountOut, V2_FEE_NUMERATOR, V2_FEE_DENOMINATOR } from './math/ConstantProduct';
+import { QuoteResult, TokenInfo } from '../types';
+
+const UNISWAP_V2_ROUTER_ABI = [
+  'function getAmountsOut(uint256 amountIn, address[] calldata path) external view returns (uint256[] memory amounts)',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] calldata path, address to, uint256 deadline) external returns (uint256[] memory amounts)'
+];
+
+const UNISWAP_V2_PAIR_ABI = [
+  'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function token0() external view returns (address)',
+  'function token1() external view returns (address)'
+];
+
+const UNISWAP_V2_FACTORY_ABI = [
+  'function getPair(address tokenA, address tokenB) external view returns (address pair)'
+];
+
+// Gas for a single-hop swapExactTokensForTokens, matching GasManager's V2 router estimates
+const SWAP_GAS_ESTIMATE = 120000;
+
+// Reserve cache lifetime when no block number has been provided (one Polygon block)
+const RESERVE_TTL_MS = 2000;
+
+interface PairReserves {
+  address: string;
+  token0: string;
+  reserve0: BigNumber;
+  reserve1: BigNumber;
+  blockNumber?: number;
+  fetchedAt: number;
+}
+
+// Router and factory pair forked from Uniswap V2, such as QuickSwap and SushiSwap
+export class UniswapV2Exchange extends BaseExchange {
+  private factoryAddress: string;
+  private feeNumerator: number;
+  private routerContract: ethers.Contract;
+  private factoryContract: ethers.Contract;
+  private pairCache: Map<string, { address: string; token0: string }> = new Map();
+  private reserveCache: Map<string, PairReserves> = new Map();
+  private pendingReserves: Map<string, Promise<PairReserves>> = new Map();
+
+  constructor(
+    provider: ethers.providers.Provider,
+    name: string,
+    routerAddress: string,
+    factoryAddress: string,
+    feeNumerator: number = V2_FEE_NUMERATOR // Input kept per 1000 after the swap fee
+  ) {
+    super(provider, name, routerAddress);
+    this.factoryAddress = factoryAddress;
+    this.feeNumerator = feeNumerator;
+    this.routerContract = new ethers.Contract(routerAddress, UNISWAP_V2_ROUTER_ABI, provider);
+    this.factoryContract = new ethers.Contract(factoryAddress, UNISWAP_V2_FACTORY_ABI, provider);
+  }
+
+  async getQuote(
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: BigNumber,
+    timeout: number = 5000
+  ): Promise<QuoteResult> {
+    // Validate inputs
+    if (!tokenIn.address || !tokenOut.address || amountIn.lte(0)) {
+      throw new Error('Invalid input parameters for quote');
+    }
+
+    if (tokenIn.address.toLowerCase() === tokenOut.address.toLowerCase()) {
+      throw new Error('Cannot quote for same token');
+    }
+
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const reserves = await Promise.race([
+        this.getReserves(tokenIn, tokenOut),
+        new Promise<never>((_, reject) => {
+          timeoutHandle = setTimeout(() => reject(new Error(`${this.name} reserves timeout after ${timeout}ms`)), timeout);
+        })
+      ]);
+
+      const isToken0In = reserves.token0 === tokenIn.address.toLowerCase();
+      const reserveIn = isToken0In ? reserves.reserve0 : reserves.reserve1;
+      const reserveOut = isToken0In ? reserves.reserve1 : reserves.reserve0;
+
+      // Same integer math as the router's getAmountsOut, so no RPC call per amount
+      const amountOut = getAmountOut(amountIn, reserveIn, reserveOut, this.feeNumerator, V2_FEE_DENOMINATOR);
+
+      if (amountOut.isZero() || amountOut.lt(amountIn.div(1000))) {
+        throw new Error('Insufficient liquidity or suspicious quote');
+      }
+
+      return {
+        dex: this.name,
+        amountIn,
+        amountOut,
+        gasEstimate: BigNumber.from(SWAP_GAS_ESTIMATE),
+        priceImpact: this.calculatePriceImpact(amountIn, amountOut, reserveIn, reserveOut),
+        route: [tokenIn.address, tokenOut.address],
+        blockNumber: reserves.blockNumber
+      };
+    } catch (error: any) {
+      throw new Error(`${this.name} quote failed for ${tokenIn.symbol} -> ${tokenOut.symbol}: ${error.message || error}`);
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+  }
+
+  async executeSwap(
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: BigNumber,
+    amountOutMin: BigNumber,
+    recipient: string,
+    deadline: number
+  ): Promise<ethers.ContractTransaction> {
+    const path = [tokenIn.address, tokenOut.address];
+    
+    return this.routerContract.swapExactTokensForTokens(
+      amountIn,
+      amountOutMin,
+      path,
+      recipient,
+      deadline
+    );
+  }
+
+  // Reserves are read at most once per block; every amount quoted in between reuses them
+  private async getReserves(tokenIn: TokenInfo, tokenOut: TokenInfo): Promise<PairReserves> {
+    const key = this.getPairCacheKey(tokenIn, tokenOut);
+    const cached = this.reserveCache.get(key);
+
+    if (cached && this.isFresh(cached)) {
+      return cached;
+    }
+
+    // Concurrent quotes for the same pair share one refresh
+    if (!this.pendingReserves.has(key)) {
+      const refresh = this.fetchReserves(tokenIn, tokenOut)
+        .then(reserves => {
+          this.reserveCache.set(key, reserves);
+          return reserves;
+        })
+        .finally(() => this.pendingReserves.delete(key));
+
+      this.pendingReserves.set(key, refresh);
+    }
+
+    return this.pendingReserves.get(key)!;
+  }
+
+  private async fetchReserves(tokenIn: TokenInfo, tokenOut: TokenInfo): Promise<PairReserves> {
+    const blockNumber = this.blockNumber;
+    const pair = await this.getPairInfo(tokenIn, tokenOut);
+    const pairContract = new ethers.Contract(pair.address, UNISWAP_V2_PAIR_ABI, this.provider);
+    const [reserve0, reserve1] = await pairContract.getReserves(this.getBlockTagOverrides(blockNumber));
+
+    return {
+      ...pair,
+      reserve0,
+      reserve1,
+      blockNumber,
+      fetchedAt: Date.now()
+    };
+  }
+
+  // Pair address and token order never change, so they are looked up once per pair
+  private async getPairInfo(tokenIn: TokenInfo, tokenOut: TokenInfo): Promise<{ address: string; token0: string }> {
+    const key = this.getPairCacheKey(tokenIn, tokenOut);
+    const cached = this.pairCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const pairAddress: string = await this.factoryContract.getPair(tokenIn.address, tokenOut.address);
+    if (pairAddress === ethers.constants.AddressZero) {
+      throw new Error(`No ${this.name} pair found for ${tokenIn.symbol}/${tokenOut.symbol}`);
+    }
+
+    const pairContract = new ethers.Contract(pairAddress, UNISWAP_V2_PAIR_ABI, this.provider);
+    const token0: string = await pairContract.token0();
+    const pair = { address: pairAddress, token0: token0.toLowerCase() };
+
+    this.pairCache.set(key, pair);
+    return pair;
+  }
+
+  private isFresh(reserves: PairReserves): boolean {
+    // Block-driven scans refresh on every new block; without block numbers fall back to a block time
+    if (this.blockNumber !== undefined) {
+      return reserves.blockNumber === this.blockNumber;
+    }
+    return Date.now() - reserves.fetchedAt < RESERVE_TTL_MS;
+  }
+
+  private getPairCacheKey(tokenA: TokenInfo, tokenB: TokenInfo): string {
+    return [tokenA.address.toLowerCase(), tokenB.address.toLowerCase()].sort().join('-');
+  }
+}
@@ -1,5 +1,13 @@
 import { ethers, BigNumber } from 'ethers';
 import { BaseExchange } from './BaseExchange';
+import {
+  V3PoolSnapshot,
+  V3Tick,
+  TickWindowExceededError,
+  getInitializedTicks,
+  getTickBitmapWords,
+  quoteExactInputSingle
+} from './math/ConcentratedLiquidity';
 import { QuoteResult, TokenInfo } from '../types';
 
 const UNISWAP_V3_QUOTER_ABI = [
@@ -14,27 +22,66 @@ const UNISWAP_V3_FACTORY_ABI = [
   'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)'
 ];
 
+const UNISWAP_V3_POOL_ABI = [
+  'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function liquidity() external view returns (uint128)',
+  'function tickSpacing() external view returns (int24)',
+  'function tickBitmap(int16 wordPosition) external view returns (uint256)',
+  'function ticks(int24 tick) external view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)'
+];
+
+// Gas for a single exactInputSingle swap, matching GasManager's Uniswap V3 estimate
+const SWAP_GAS_ESTIMATE = 180000;
+
+// Tick bitmap words loaded either side of the current tick; each word spans 256 tick spacings
+const TICK_WORD_RADIUS = 2;
+
+// Pool snapshot lifetime when no block number has been provided (one Polygon block)
+const POOL_STATE_TTL_MS = 2000;
+
+interface CachedPoolState {
+  snapshot: V3PoolSnapshot;
+  blockNumber?: number;
+  fetchedAt: number;
+}
+
+// Initialized ticks in the bitmap words around centerWord; they only change on Mint and Burn
+interface CachedTickData {
+  centerWord: number;
+  minWord: number;
+  maxWord: number;
+  ticks: V3Tick[];
+}
+
 export class UniswapV3Exchange extends BaseExchange {
   private quoterAddress: string;
   private quoterContract: ethers.Contract;
   private routerContract: ethers.Contract;
   private factoryContract: ethers.Contract;
   private fees: number[] = [500, 3000, 10000]; // 0.05%, 0.3%, 1%
+  private feeTiers: number[]; // Tiers quoted, most liquid first
   private poolCache: Map<string, string> = new Map(); // Cache pool addresses
   private lastCacheClear: number = Date.now();
+  private poolStateCache: Map<string, CachedPoolState> = new Map();
+  private pendingPoolStates: Map<string, Promise<CachedPoolState>> = new Map();
+  private tickSpacings: Map<string, number> = new Map(); // Fixed when a pool is created
+  private tickDataCache: Map<string, CachedTickData> = new Map();
+  private positionWatchedPools: Set<string> = new Set();
 
   constructor(
     provider: ethers.providers.Provider,
     routerAddress: string,
-    quoterAddress: string
+    quoterAddress: string,
+    factoryAddress: string,
+    feeTiers: number[] = [3000, 500]
   ) {
     super(provider, 'Uniswap V3', routerAddress);
     this.quoterAddress = quoterAddress;
+    this.feeTiers = feeTiers;
     this.quoterContract = new ethers.Contract(quoterAddress, UNISWAP_V3_QUOTER_ABI, provider);
     this.routerContract = new ethers.Contract(routerAddress, UNISWAP_V3_ROUTER_ABI, provider);
 
     // Factory contract for checking pool existence
-    const factoryAddress = '0x1F98431c8aD98523631AE4a59f267346ea31F984';
     this.factoryContract = new ethers.Contract(factoryAddress, UNISWAP_V3_FACTORY_ABI, provider);
   }
 
@@ -42,7 +89,8 @@ export class UniswapV3Exchange extends BaseExchange {
     tokenIn: TokenInfo,
     tokenOut: TokenInfo,
     amountIn: BigNumber,
-    timeout: number = 5000
+    timeout: number = 5000,
+    feeTiers: number[] = this.feeTiers
   ): Promise<QuoteResult> {
     let bestQuote: QuoteResult | null = null;
 
@@ -57,18 +105,21 @@ export class UniswapV3Exchange extends BaseExchange {
     }
 
     // Create timeout promise
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error(`Uniswap V3 quote timeout after ${timeout}ms`)), timeout);
+      timeoutHandle = setTimeout(() => reject(new Error(`Uniswap V3 quote timeout after ${timeout}ms`)), timeout);
     });
 
     try {
-      const quotePromise = this.getQuoteInternal(tokenIn, tokenOut, amountIn);
+      const quotePromise = this.getQuoteInternal(tokenIn, tokenOut, amountIn, feeTiers);
       bestQuote = await Promise.race([quotePromise, timeoutPromise]);
     } catch (error: any) {
       if (error.message?.includes('timeout')) {
         throw error;
       }
       throw new Error(`No valid Uniswap V3 quote found for ${tokenIn.symbol} -> ${tokenOut.symbol}. ${error.message || 'Unknown error'}`);
+    } finally {
+      clearTimeout(timeoutHandle);
     }
 
     if (!bestQuote) {
@@ -78,17 +129,26 @@ export class UniswapV3Exchange extends BaseExchange {
     return bestQuote;
   }
 
+  // Quote through one fee tier's pool, e.g. to re-price a leg that was found on that tier
+  async getFeeTierQuote(
+    fee: number,
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: BigNumber,
+    timeout: number = 5000
+  ): Promise<QuoteResult> {
+    return this.getQuote(tokenIn, tokenOut, amountIn, timeout, [fee]);
+  }
+
   private async getQuoteInternal(
     tokenIn: TokenInfo,
     tokenOut: TokenInfo,
-    amountIn: BigNumber
+    amountIn: BigNumber,
+    feeTiers: number[]
   ): Promise<QuoteResult | null> {
     let bestQuote: QuoteResult | null = null;
 
-    // Sort fees by popularity to check most liquid pools first
-    const sortedFees = [3000, 500]; // Remove 1% fee tier for stability
-
-    for (const fee of sortedFees) {
+    for (const fee of feeTiers) {
       try {
         // First check if the pool exists by calling the factory
         const poolAddress = await this.getPoolAddress(tokenIn.address, tokenOut.address, fee);
@@ -96,38 +156,18 @@ export class UniswapV3Exchange extends BaseExchange {
           continue;
         }
 
-        // Use a timeout for the quote call itself
-        const quoteCallPromise = this.quoterContract.callStatic.quoteExactInputSingle(
-          tokenIn.address,
-          tokenOut.address,
-          fee,
-          amountIn,
-          0
-        );
-
-        const amountOut = await Promise.race([
-          quoteCallPromise,
-          new Promise<never>((_, reject) =>
-            setTimeout(() => reject(new Error('Quote call timeout')), 3000)
-          )
-        ]);
+        const { amountOut, blockNumber } = await this.quoteFeeTier(poolAddress, tokenIn, tokenOut, fee, amountIn);
 
         if (amountOut.gt(0)) {
-          const gasEstimate = await this.estimateSwapGas(
-            tokenIn,
-            tokenOut,
-            amountIn,
-            amountOut,
-            fee
-          );
-
           const quote: QuoteResult = {
             dex: this.name,
             amountIn,
             amountOut,
-            gasEstimate,
+            gasEstimate: BigNumber.from(SWAP_GAS_ESTIMATE),
             priceImpact: 0,
-            route: [tokenIn.address, tokenOut.address]
+            route: [tokenIn.address, tokenOut.address],
+            fee,
+            blockNumber
           };
 
           if (!bestQuote || amountOut.gt(bestQuote.amountOut)) {
@@ -146,6 +186,163 @@ export class UniswapV3Exchange extends BaseExchange {
     return bestQuote;
   }
 
+  // Simulated from the pool's state at the current block, falling back to the Quoter
+  // when the swap would run past the loaded ticks
+  private async quoteFeeTier(
+    poolAddress: string,
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    fee: number,
+    amountIn: BigNumber
+  ): Promise<{ amountOut: BigNumber; blockNumber?: number }> {
+    try {
+      const { snapshot, blockNumber } = await this.getPoolState(poolAddress, fee);
+      return { amountOut: await quoteExactInputSingle(snapshot, tokenIn, tokenOut, amountIn), blockNumber };
+    } catch (error: any) {
+      if (!(error instanceof TickWindowExceededError)) {
+        console.warn(`Local Uniswap V3 quote failed for ${tokenIn.symbol}/${tokenOut.symbol} fee ${fee}: ${error.message || error}`);
+      }
+    }
+
+    const blockNumber = this.blockNumber;
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const amountOut = await Promise.race([
+        this.quoterContract.callStatic.quoteExactInputSingle(
+          tokenIn.address,
+          tokenOut.address,
+          fee,
+          amountIn,
+          0,
+          this.getBlockTagOverrides(blockNumber)
+        ),
+        new Promise<never>((_, reject) => {
+          timeoutHandle = setTimeout(() => reject(new Error('Quote call timeout')), 3000);
+        })
+      ]);
+
+      return { amountOut, blockNumber };
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+  }
+
+  // Pool state is loaded at most once per block; every amount quoted in between reuses it
+  private async getPoolState(poolAddress: string, fee: number): Promise<CachedPoolState> {
+    const cached = this.poolStateCache.get(poolAddress);
+
+    if (cached && this.isFresh(cached)) {
+      return cached;
+    }
+
+    // Concurrent quotes against the same pool share one load
+    if (!this.pendingPoolStates.has(poolAddress)) {
+      const load = this.loadPoolState(poolAddress, fee)
+        .then(state => {
+          this.poolStateCache.set(poolAddress, state);
+          return state;
+        })
+        .finally(() => this.pendingPoolStates.delete(poolAddress));
+
+      this.pendingPoolStates.set(poolAddress, load);
+    }
+
+    return this.pendingPoolStates.get(poolAddress)!;
+  }
+
+  private async loadPoolState(poolAddress: string, fee: number): Promise<CachedPoolState> {
+    const blockNumber = this.blockNumber;
+    const pool = new ethers.Contract(poolAddress, UNISWAP_V3_POOL_ABI, this.provider);
+    const overrides = this.getBlockTagOverrides(blockNumber);
+
+    const [slot0, liquidity, tickSpacing] = await Promise.all([
+      pool.slot0(overrides),
+      pool.liquidity(overrides),
+      this.getTickSpacing(pool)
+    ]);
+
+    const { ticks, minWord, maxWord } = await this.getTickData(pool, slot0.tick, tickSpacing, overrides);
+
+    return {
+      snapshot: {
+        fee,
+        tickSpacing,
+        sqrtPriceX96: slot0.sqrtPriceX96,
+        liquidity,
+        tick: slot0.tick,
+        ticks,
+        minWord,
+        maxWord
+      },
+      blockNumber,
+      fetchedAt: Date.now()
+    };
+  }
+
+  private async getTickSpacing(pool: ethers.Contract): Promise<number> {
+    const key = pool.address.toLowerCase();
+    if (!this.tickSpacings.has(key)) {
+      this.tickSpacings.set(key, await pool.tickSpacing());
+    }
+    return this.tickSpacings.get(key)!;
+  }
+
+  // Swaps never change tick liquidity, so for pools whose Mint and Burn events are watched the
+  // ticks are reused until one of those events or until the price leaves the loaded words' center
+  private async getTickData(
+    pool: ethers.Contract,
+    tick: number,
+    tickSpacing: number,
+    overrides: { blockTag?: number }
+  ): Promise<CachedTickData> {
+    const key = pool.address.toLowerCase();
+    const words = getTickBitmapWords(tick, tickSpacing, TICK_WORD_RADIUS);
+    const centerWord = words[TICK_WORD_RADIUS];
+
+    const cached = this.tickDataCache.get(key);
+    if (cached && cached.centerWord === centerWord && this.positionWatchedPools.has(key)) {
+      return cached;
+    }
+
+    const bitmaps: BigNumber[] = await Promise.all(words.map(word => pool.tickBitmap(word, overrides)));
+
+    const tickIndexes = words.flatMap((word, i) => getInitializedTicks(word, bitmaps[i], tickSpacing));
+    const ticks: V3Tick[] = await Promise.all(tickIndexes.map(async index => {
+      const tickInfo = await pool.ticks(index, overrides);
+      return { index, liquidityNet: tickInfo.liquidityNet };
+    }));
+
+    const tickData: CachedTickData = {
+      centerWord,
+      minWord: words[0],
+      maxWord: words[words.length - 1],
+      ticks: ticks.sort((a, b) => a.index - b.index)
+    };
+    this.tickDataCache.set(key, tickData);
+
+    return tickData;
+  }
+
+  // Pools whose Mint and Burn events are reported through invalidatePositions; their ticks are
+  // kept across blocks, every other pool's are reloaded with its state each block
+  watchPositionEvents(poolAddresses: string[]): void {
+    poolAddresses.forEach(address => this.positionWatchedPools.add(address.toLowerCase()));
+  }
+
+  // Pools that had a Mint or Burn: their tick liquidity is reloaded on the next quote
+  invalidatePositions(poolAddresses: string[]): void {
+    poolAddresses.forEach(address => this.tickDataCache.delete(address.toLowerCase()));
+  }
+
+  private isFresh(state: CachedPoolState): boolean {
+    // Block-driven scans refresh on every new block; without block numbers fall back to a block time
+    if (this.blockNumber !== undefined) {
+      return state.blockNumber === this.blockNumber;
+    }
+    return Date.now() - state.fetchedAt < POOL_STATE_TTL_MS;
+  }
+
   async executeSwap(
     tokenIn: TokenInfo,
     tokenOut: TokenInfo,
@@ -226,11 +423,13 @@ export class UniswapV3Exchange extends BaseExchange {
       return this.poolCache.get(cacheKey)!;
     }
 
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
     try {
       // Add timeout to factory call
       const poolAddressPromise = this.factoryContract.getPool(tokenA, tokenB, fee);
       const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Factory call timeout')), 2000);
+        timeoutHandle = setTimeout(() => reject(new Error('Factory call timeout')), 2000);
       });
 
       const poolAddress = await Promise.race([poolAddressPromise, timeoutPromise]);
@@ -250,31 +449,8 @@ export class UniswapV3Exchange extends BaseExchange {
       this.poolCache.set(cacheKey, ethers.constants.AddressZero);
 
       return ethers.constants.AddressZero;
+    } finally {
+      clearTimeout(timeoutHandle);
     }
   }
-
-  private async estimateSwapGas(
-    tokenIn: TokenInfo,
-    tokenOut: TokenInfo,
-    amountIn: BigNumber,
-    amountOutMin: BigNumber,
-    fee: number
-  ): Promise<BigNumber> {
-    try {
-      const params = {
-        tokenIn: tokenIn.address,
-        tokenOut: tokenOut.address,
-        fee,
-        recipient: ethers.constants.AddressZero,
-        deadline: Math.floor(Date.now() / 1000) + 300,
-        amountIn,
-        amountOutMinimum: amountOutMin,
-        sqrtPriceLimitX96: 0
-      };
-
-      return await this.routerContract.estimateGas.exactInputSingle(params);
-    } catch (error) {
-      return BigNumber.from(300000); // Default gas estimate
-    }
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals';
+import { BigNumber } from 'ethers';
+import { TokenInfo } from '../../types';
+import {
+  TickWindowExceededError,
+  V3PoolSnapshot,
+  getInitializedTicks,
+  getTickBitmapWords,
+  quoteExactInputSingle
+} from './ConcentratedLiquidity';
+import vectors from './__fixtures__/uniswapV3Vectors.json';
+
+// QuoterV2 outputs against real Uniswap V3 pools on the Hardhat network (scripts/generate-v3-vectors.ts)
+const token0: TokenInfo = { ...vectors.token0, name: vectors.token0.symbol };
+const token1: TokenInfo = { ...vectors.token1, name: vectors.token1.symbol };
+
+function toSnapshot(pool: typeof vectors.pools[number]): V3PoolSnapshot {
+  return {
+    fee: pool.fee,
+    tickSpacing: pool.tickSpacing,
+    sqrtPriceX96: BigNumber.from(pool.sqrtPriceX96),
+    liquidity: BigNumber.from(pool.liquidity),
+    tick: pool.tick,
+    ticks: pool.ticks.map(tick => ({ index: tick.index, liquidityNet: BigNumber.from(tick.liquidityNet) })),
+    minWord: pool.minWord,
+    maxWord: pool.maxWord
+  };
+}
+
+describe('ConcentratedLiquidity.quoteExactInputSingle', () => {
+  for (const pool of vectors.pools) {
+    describe(`fee ${pool.fee} pool`, () => {
+      const snapshot = toSnapshot(pool);
+
+      for (const quote of pool.quotes) {
+        const [tokenIn, tokenOut] = quote.zeroForOne ? [token0, token1] : [token1, token0];
+
+        it(`matches QuoterV2 for ${quote.amountIn} ${tokenIn.symbol} crossing ${quote.ticksCrossed} ticks`, async () => {
+          const amountOut = await quoteExactInputSingle(snapshot, tokenIn, tokenOut, BigNumber.from(quote.amountIn));
+          expect(amountOut.toString()).toBe(quote.amountOut);
+        });
+      }
+    });
+  }
+
+  it('covers swaps that cross initialized ticks', () => {
+    const crossing = vectors.pools.flatMap(pool => pool.quotes).filter(quote => quote.ticksCrossed > 0);
+    expect(crossing.length).toBeGreaterThan(0);
+  });
+
+  it('throws instead of skipping liquidity outside the loaded words', async () => {
+    const pool = vectors.pools[0];
+    const currentWord = Math.floor(pool.tick / pool.tickSpacing) >> 8;
+    const snapshot = { ...toSnapshot(pool), minWord: currentWord, maxWord: currentWord };
+    const largest = pool.quotes.filter(quote => quote.zeroForOne).slice(-1)[0];
+
+    await expect(quoteExactInputSingle(snapshot, token0, token1, BigNumber.from(largest.amountIn).mul(10)))
+      .rejects.toBeInstanceOf(TickWindowExceededError);
+  });
+});
+
+describe('ConcentratedLiquidity tick bitmap helpers', () => {
+  it('lists the words either side of the current tick', () => {
+    // Tick -201000 at spacing 60 compresses to -3350, in word -14
+    expect(getTickBitmapWords(-201000, 60, 2)).toEqual([-16, -15, -14, -13, -12]);
+  });
+
+  it('maps set bits back to tick indexes', () => {
+    const bitmap = BigNumber.from(1).shl(5).or(BigNumber.from(1).shl(200));
+    expect(getInitializedTicks(-14, bitmap, 60)).toEqual([(-14 * 256 + 5) * 60, (-14 * 256 + 200) * 60]);
+  });
+});
@@ -0,0 +1,126 @@
+import { BigNumber } from 'ethers';
+import { ChainId, CurrencyAmount, Token } from '@uniswap/sdk-core';
+import { FeeAmount, Pool, TickDataProvider } from '@uniswap/v3-sdk';
+import { TokenInfo } from '../../types';
+
+export interface V3Tick {
+  index: number;
+  liquidityNet: BigNumber;
+}
+
+// Everything the swap loop reads from a pool at one block
+export interface V3PoolSnapshot {
+  fee: number;
+  tickSpacing: number;
+  sqrtPriceX96: BigNumber;
+  liquidity: BigNumber;
+  tick: number;
+  ticks: V3Tick[]; // Initialized ticks inside the loaded words, ascending
+  minWord: number; // Lowest tick bitmap word loaded
+  maxWord: number; // Highest tick bitmap word loaded
+}
+
+export class TickWindowExceededError extends Error {
+  constructor(wordPosition: number) {
+    super(`Swap crosses tick bitmap word ${wordPosition}, outside the loaded window`);
+    this.name = 'TickWindowExceededError';
+  }
+}
+
+// Serves ticks from the loaded bitmap words only; a swap that walks past them
+// throws rather than silently skipping liquidity the snapshot never saw
+export class WindowedTickDataProvider implements TickDataProvider {
+  private snapshot: V3PoolSnapshot;
+
+  constructor(snapshot: V3PoolSnapshot) {
+    this.snapshot = snapshot;
+  }
+
+  async getTick(tick: number): Promise<{ liquidityNet: string }> {
+    const found = this.snapshot.ticks.find(t => t.index === tick);
+    if (!found) {
+      throw new Error(`Tick ${tick} is not initialized`);
+    }
+    return { liquidityNet: found.liquidityNet.toString() };
+  }
+
+  // Mirrors TickBitmap.nextInitializedTickWithinOneWord
+  async nextInitializedTickWithinOneWord(tick: number, lte: boolean, tickSpacing: number): Promise<[number, boolean]> {
+    const compressed = Math.floor(tick / tickSpacing);
+    const { ticks, minWord, maxWord } = this.snapshot;
+
+    if (lte) {
+      const wordPosition = compressed >> 8;
+      if (wordPosition < minWord || wordPosition > maxWord) {
+        throw new TickWindowExceededError(wordPosition);
+      }
+
+      const minimum = (wordPosition << 8) * tickSpacing;
+      const next = [...ticks].reverse().find(t => t.index <= tick);
+
+      return next && next.index >= minimum ? [next.index, true] : [minimum, false];
+    }
+
+    const wordPosition = (compressed + 1) >> 8;
+    if (wordPosition < minWord || wordPosition > maxWord) {
+      throw new TickWindowExceededError(wordPosition);
+    }
+
+    const maximum = (((wordPosition + 1) << 8) - 1) * tickSpacing;
+    const next = ticks.find(t => t.index > tick);
+
+    return next && next.index <= maximum ? [next.index, true] : [maximum, false];
+  }
+}
+
+// Bitmap words covering `radius` words either side of the current tick
+export function getTickBitmapWords(tick: number, tickSpacing: number, radius: number): number[] {
+  const currentWord = Math.floor(tick / tickSpacing) >> 8;
+  const words: number[] = [];
+
+  for (let word = currentWord - radius; word <= currentWord + radius; word++) {
+    words.push(word);
+  }
+
+  return words;
+}
+
+// Tick indexes whose bit is set in one tickBitmap word
+export function getInitializedTicks(wordPosition: number, bitmap: BigNumber, tickSpacing: number): number[] {
+  const ticks: number[] = [];
+
+  for (let bit = 0; bit < 256 && !bitmap.isZero(); bit++) {
+    if (bitmap.shr(bit).and(1).eq(1)) {
+      ticks.push(((wordPosition << 8) + bit) * tickSpacing);
+    }
+  }
+
+  return ticks;
+}
+
+// Runs the pool's swap loop in process; same result as Quoter.quoteExactInputSingle with no price limit
+export async function quoteExactInputSingle(
+  snapshot: V3PoolSnapshot,
+  tokenIn: TokenInfo,
+  tokenOut: TokenInfo,
+  amountIn: BigNumber
+): Promise<BigNumber> {
+  const sdkTokenIn = new Token(ChainId.POLYGON, tokenIn.address, tokenIn.decimals, tokenIn.symbol);
+  const sdkTokenOut = new Token(ChainId.POLYGON, tokenOut.address, tokenOut.decimals, tokenOut.symbol);
+
+  const pool = new Pool(
+    sdkTokenIn,
+    sdkTokenOut,
+    snapshot.fee as FeeAmount,
+    snapshot.sqrtPriceX96.toString(),
+    snapshot.liquidity.toString(),
+    snapshot.tick,
+    new WindowedTickDataProvider(snapshot)
+  );
+
+  const [amountOut] = await pool.getOutputAmount(
+    CurrencyAmount.fromRawAmount(sdkTokenIn, amountIn.toString())
+  );
+
+  return BigNumber.from(amountOut.quotient.toString());
+}
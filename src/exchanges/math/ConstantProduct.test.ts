@@ -0,0 +1,31 @@
+import { describe, expect, it } from '@jest/globals';
+import { BigNumber } from 'ethers';
+import { getAmountOut } from './ConstantProduct';
+
+const units = (amount: number | string, decimals: number = 18) => BigNumber.from(10).pow(decimals).mul(amount);
+
+describe('ConstantProduct.getAmountOut', () => {
+  it('matches UniswapV2Library.getAmountOut to the wei', () => {
+    expect(getAmountOut(units(1), units(100), units(200)).toString()).toBe('1974316068794122597');
+  });
+
+  it('scales across tokens with different decimals', () => {
+    // 1,000 USDC (6 decimals) into a 5M USDC / 2.5M WMATIC pair
+    expect(getAmountOut(units(1000, 6), units(5000000, 6), units(2500000)).toString()).toBe('498400618916588032346');
+  });
+
+  it('applies a fork-specific fee', () => {
+    // ApeSwap charges 0.2%: 998 of every 1000 input units reach the curve
+    expect(getAmountOut(units(1000, 6), units(5000000, 6), units(2500000), 998).toString()).toBe('498900419476272536001');
+  });
+
+  it('rounds down like the library', () => {
+    expect(getAmountOut(BigNumber.from(1), units(1), units(1)).isZero()).toBe(true);
+  });
+
+  it('rejects empty input and empty reserves', () => {
+    expect(() => getAmountOut(BigNumber.from(0), units(1), units(1))).toThrow('Insufficient input amount');
+    expect(() => getAmountOut(units(1), BigNumber.from(0), units(1))).toThrow('Insufficient liquidity');
+    expect(() => getAmountOut(units(1), units(1), BigNumber.from(0))).toThrow('Insufficient liquidity');
+  });
+});
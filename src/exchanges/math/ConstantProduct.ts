@@ -0,0 +1,27 @@
+import { BigNumber } from 'ethers';
+
+// Uniswap V2 style fee: 0.3% leaves 997 of every 1000 input units
+export const V2_FEE_NUMERATOR = 997;
+export const V2_FEE_DENOMINATOR = 1000;
+
+// UniswapV2Library.getAmountOut, integer for integer, so results match the router's getAmountsOut to the wei
+export function getAmountOut(
+  amountIn: BigNumber,
+  reserveIn: BigNumber,
+  reserveOut: BigNumber,
+  feeNumerator: number = V2_FEE_NUMERATOR,
+  feeDenominator: number = V2_FEE_DENOMINATOR
+): BigNumber {
+  if (amountIn.lte(0)) {
+    throw new Error('Insufficient input amount');
+  }
+  if (reserveIn.lte(0) || reserveOut.lte(0)) {
+    throw new Error('Insufficient liquidity');
+  }
+
+  const amountInWithFee = amountIn.mul(feeNumerator);
+  const numerator = amountInWithFee.mul(reserveOut);
+  const denominator = reserveIn.mul(feeDenominator).add(amountInWithFee);
+
+  return numerator.div(denominator);
+}
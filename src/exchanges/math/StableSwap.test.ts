@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { BigNumber } from 'ethers';
+import { A_PRECISION, FEE_DENOMINATOR, StableSwapState, getD, getDy, getDynamicFee } from './StableSwap';
+
+const units = (amount: number | string, decimals: number = 18) => BigNumber.from(10).pow(decimals).mul(amount);
+
+// DAI / USDC / USDT with 1M of each, A = 200 and a 0.04% fee
+function pool(overrides: Partial<StableSwapState> = {}): StableSwapState {
+  return {
+    amp: BigNumber.from(200 * A_PRECISION),
+    fee: BigNumber.from(4000000),
+    offpegFeeMultiplier: BigNumber.from(0),
+    balances: [units(1000000), units(1000000, 6), units(1000000, 6)],
+    precisionMultipliers: [BigNumber.from(1), units(1, 12), units(1, 12)],
+    ...overrides
+  };
+}
+
+describe('StableSwap.getD', () => {
+  it('equals the sum of balances for a balanced pool', () => {
+    const xp = [units(1000000), units(1000000), units(1000000)];
+    expect(getD(xp, BigNumber.from(200 * A_PRECISION)).sub(units(3000000)).abs().lte(1)).toBe(true);
+  });
+
+  it('is zero for an empty pool', () => {
+    expect(getD([BigNumber.from(0), BigNumber.from(0)], BigNumber.from(200 * A_PRECISION)).isZero()).toBe(true);
+  });
+});
+
+describe('StableSwap.getDy', () => {
+  it('swaps nearly 1:1 less the fee in a balanced pool, scaling between decimals', () => {
+    // 1,000 DAI to USDC: the curve loses well under a cent, the fee takes 0.40 USDC
+    const dy = getDy(pool(), 0, 1, units(1000));
+    expect(dy.lte(units(1000, 6).sub(400000))).toBe(true);
+    expect(dy.gte(units(1000, 6).sub(410000))).toBe(true);
+  });
+
+  it('slips less at a higher amplification', () => {
+    const imbalanced = { balances: [units(1500000), units(500000, 6), units(1000000, 6)] };
+    const lowA = getDy(pool({ ...imbalanced, amp: BigNumber.from(10 * A_PRECISION) }), 0, 1, units(100000));
+    const highA = getDy(pool({ ...imbalanced, amp: BigNumber.from(1000 * A_PRECISION) }), 0, 1, units(100000));
+    expect(highA.gt(lowA)).toBe(true);
+  });
+
+  it('pays less for the coin the pool already holds too much of', () => {
+    const state = pool({ balances: [units(1500000), units(500000, 6), units(1000000, 6)] });
+    expect(getDy(state, 0, 1, units(10000)).lt(getDy(state, 1, 0, units(10000, 6)).div(units(1, 12)))).toBe(true);
+  });
+
+  it('never pays out more than the pool holds', () => {
+    expect(getDy(pool(), 0, 1, units(1000000000)).lt(units(1000000, 6))).toBe(true);
+  });
+
+  it('rejects empty input', () => {
+    expect(() => getDy(pool(), 0, 1, BigNumber.from(0))).toThrow('Insufficient input amount');
+  });
+});
+
+describe('StableSwap.getDynamicFee', () => {
+  const fee = BigNumber.from(4000000);
+  const multiplier = FEE_DENOMINATOR.mul(2);
+
+  it('keeps the flat fee without an off-peg multiplier', () => {
+    expect(getDynamicFee(units(1), units(3), fee, FEE_DENOMINATOR).eq(fee)).toBe(true);
+  });
+
+  it('charges the base fee at the peg and more as balances drift apart', () => {
+    expect(getDynamicFee(units(1), units(1), fee, multiplier).eq(fee)).toBe(true);
+    const drifted = getDynamicFee(units(1), units(3), fee, multiplier);
+    expect(drifted.gt(fee)).toBe(true);
+    expect(drifted.lt(fee.mul(2))).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import { BigNumber } from 'ethers';
+
+// Constants of Curve's StableSwap pools (Vyper 0.2 generation, e.g. the Polygon aave pool)
+export const A_PRECISION = 100;
+export const FEE_DENOMINATOR = BigNumber.from(10).pow(10);
+
+const MAX_ITERATIONS = 255;
+
+export interface StableSwapState {
+  amp: BigNumber; // A_precise(), i.e. A * A_PRECISION
+  fee: BigNumber; // Swap fee in FEE_DENOMINATOR units
+  offpegFeeMultiplier: BigNumber; // Dynamic fee multiplier; at or below FEE_DENOMINATOR the fee is flat
+  balances: BigNumber[]; // Coin balances in each coin's own decimals
+  precisionMultipliers: BigNumber[]; // 10 ** (18 - decimals) per coin
+}
+
+// Pool invariant D for balances normalised to 18 decimals
+export function getD(xp: BigNumber[], amp: BigNumber): BigNumber {
+  const n = xp.length;
+  const sum = xp.reduce((total, x) => total.add(x), BigNumber.from(0));
+  if (sum.isZero()) {
+    return sum;
+  }
+
+  const ann = amp.mul(n);
+  let d = sum;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    let dP = d;
+    for (const x of xp) {
+      dP = dP.mul(d).div(x.mul(n).add(1)); // +1 prevents division by zero, as in the pool
+    }
+
+    const previous = d;
+    d = ann.mul(sum).div(A_PRECISION).add(dP.mul(n)).mul(d)
+      .div(ann.sub(A_PRECISION).mul(d).div(A_PRECISION).add(dP.mul(n + 1)));
+
+    if (d.sub(previous).abs().lte(1)) {
+      return d;
+    }
+  }
+
+  throw new Error('StableSwap D did not converge');
+}
+
+// Balance of coin j that keeps D constant when coin i's balance becomes x
+export function getY(i: number, j: number, x: BigNumber, xp: BigNumber[], amp: BigNumber): BigNumber {
+  const n = xp.length;
+  const d = getD(xp, amp);
+  const ann = amp.mul(n);
+
+  let c = d;
+  let sum = BigNumber.from(0);
+
+  for (let k = 0; k < n; k++) {
+    if (k === j) {
+      continue;
+    }
+
+    const balance = k === i ? x : xp[k];
+    sum = sum.add(balance);
+    c = c.mul(d).div(balance.mul(n));
+  }
+
+  c = c.mul(d).mul(A_PRECISION).div(ann.mul(n));
+  const b = sum.add(d.mul(A_PRECISION).div(ann));
+  let y = d;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const previous = y;
+    y = y.mul(y).add(c).div(y.mul(2).add(b).sub(d));
+
+    if (y.sub(previous).abs().lte(1)) {
+      return y;
+    }
+  }
+
+  throw new Error('StableSwap y did not converge');
+}
+
+// Fee rises as the two balances drift apart when the pool has an off-peg multiplier
+export function getDynamicFee(xpi: BigNumber, xpj: BigNumber, fee: BigNumber, feeMultiplier: BigNumber): BigNumber {
+  if (feeMultiplier.lte(FEE_DENOMINATOR)) {
+    return fee;
+  }
+
+  const xps2 = xpi.add(xpj).pow(2);
+  return feeMultiplier.mul(fee).div(
+    feeMultiplier.sub(FEE_DENOMINATOR).mul(4).mul(xpi).mul(xpj).div(xps2).add(FEE_DENOMINATOR)
+  );
+}
+
+// get_dy: output of coin j for dx of coin i, after fees, in coin j's decimals
+export function getDy(state: StableSwapState, i: number, j: number, dx: BigNumber): BigNumber {
+  const { amp, fee, offpegFeeMultiplier, balances, precisionMultipliers } = state;
+
+  if (dx.lte(0)) {
+    throw new Error('Insufficient input amount');
+  }
+
+  const xp = balances.map((balance, k) => balance.mul(precisionMultipliers[k]));
+  const x = xp[i].add(dx.mul(precisionMultipliers[i]));
+  const y = getY(i, j, x, xp, amp);
+
+  if (y.gte(xp[j])) {
+    throw new Error('Insufficient liquidity');
+  }
+
+  const dy = xp[j].sub(y).div(precisionMultipliers[j]);
+  const dynamicFee = getDynamicFee(xp[i].add(x).div(2), xp[j].add(y).div(2), fee, offpegFeeMultiplier);
+
+  return dy.sub(dynamicFee.mul(dy).div(FEE_DENOMINATOR));
+}
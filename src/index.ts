@@ -6,6 +6,7 @@ import { TelegramBot } from './services/TelegramBot';
 import { RiskManager } from './services/RiskManager';
 import { PerformanceTracker } from './services/PerformanceTracker';
 import { MEVProtection } from './services/MEVProtection';
+import { ExecutionCoordinator } from './services/ExecutionCoordinator';
 import winston from 'winston';
 
 // Load environment variables
@@ -43,6 +44,13 @@ interface Config {
   adminUserId: string;
   port: number;
   initialCapital: number;
+  dryRun: boolean;
+  maxConcurrentTrades: number;
+  enableTriangular: boolean;
+  enableGraphSearch: boolean;
+  maxCycleLength: number;
+  scanMode: 'block' | 'interval';
+  trackPoolState: boolean;
 }
 
 function validateConfig(): Config {
@@ -57,6 +65,12 @@ function validateConfig(): Config {
     }
   }
 
+  // A NaN limit would make the execution queue's concurrency check always false and stall it
+  const maxConcurrentTrades = parseInt(process.env.MAX_CONCURRENT_TRADES || '1');
+  if (isNaN(maxConcurrentTrades) || maxConcurrentTrades < 1) {
+    throw new Error(`Invalid MAX_CONCURRENT_TRADES: ${process.env.MAX_CONCURRENT_TRADES} (must be a whole number of at least 1)`);
+  }
+
   // Telegram variables are optional in production
   // Check for valid Telegram credentials (not placeholder values)
   const isValidTelegramToken = (token?: string) => {
@@ -84,7 +98,14 @@ function validateConfig(): Config {
     telegramChatId: process.env.TELEGRAM_CHAT_ID || '',
     adminUserId: process.env.ADMIN_USER_ID || '',
     port: parseInt(process.env.PORT || '3000'),
-    initialCapital: parseFloat(process.env.INITIAL_CAPITAL || '10000')
+    initialCapital: parseFloat(process.env.INITIAL_CAPITAL || '10000'),
+    dryRun: process.env.DRY_RUN === 'true',
+    maxConcurrentTrades,
+    enableTriangular: process.env.TRIANGULAR_ARBITRAGE === 'true',
+    enableGraphSearch: process.env.GRAPH_SEARCH === 'true',
+    maxCycleLength: parseInt(process.env.MAX_CYCLE_LENGTH || '4'),
+    scanMode: process.env.SCAN_MODE === 'interval' ? 'interval' : 'block',
+    trackPoolState: process.env.POOL_STATE_TRACKING !== 'false'
   };
 }
 
@@ -98,6 +119,7 @@ class ArbitrageBotApp {
   private riskManager!: RiskManager;
   private performanceTracker!: PerformanceTracker;
   private mevProtection!: MEVProtection;
+  private executionCoordinator!: ExecutionCoordinator;
   private isRunning = false;
   private healthStatus = {
     status: 'starting',
@@ -165,12 +187,15 @@ class ArbitrageBotApp {
       res.json({
         bot: {
           isRunning: this.isRunning,
+          dryRun: this.config.dryRun,
           uptime: process.uptime(),
           version: this.healthStatus.version
         },
         arbitrage: stats,
         performance: metrics,
         risk: riskMetrics,
+        execution: this.executionCoordinator.getStats(),
+        prices: this.arbitrageEngine.getPriceOracle().getAllPrices(),
         lastUpdated: new Date().toISOString()
       });
     });
@@ -231,8 +256,16 @@ class ArbitrageBotApp {
       maxTradeAmountUSD: this.config.maxTradeSize,
       gasLimitGwei: 150, // Increased for Polygon
       profitBufferPercent: 25, // More conservative
-      updateIntervalMs: 60000 // 60 seconds - less aggressive scanning
-    });
+      updateIntervalMs: 60000, // 60 seconds - less aggressive scanning
+      scanMode: this.config.scanMode,
+      blockPollIntervalMs: 2000, // Polygon block time
+      trackPoolState: this.config.trackPoolState,
+      contractAddress: this.config.contractAddress,
+      dryRun: this.config.dryRun,
+      enableTriangular: this.config.enableTriangular,
+      enableGraphSearch: this.config.enableGraphSearch,
+      maxCycleLength: this.config.maxCycleLength
+    }, this.config.privateKey);
 
     // Initialize MEV protection
     this.mevProtection = new MEVProtection(
@@ -248,6 +281,30 @@ class ArbitrageBotApp {
       }
     );
 
+    // Scan on new block headers when a WebSocket is configured, otherwise poll
+    if (this.wsProvider) {
+      this.arbitrageEngine.setBlockProvider(this.wsProvider);
+    }
+
+    // Every execution goes through risk approval and MEV protection
+    this.riskManager.setPriceOracle(this.arbitrageEngine.getPriceOracle());
+    this.riskManager.setFlashLoanSelector(this.arbitrageEngine.getFlashLoanSelector());
+    this.performanceTracker.setPriceOracle(this.arbitrageEngine.getPriceOracle());
+    this.arbitrageEngine.setRiskManager(this.riskManager);
+    this.arbitrageEngine.setMEVProtection(this.mevProtection);
+
+    // Initialize execution coordinator
+    this.executionCoordinator = new ExecutionCoordinator(
+      this.arbitrageEngine,
+      this.riskManager,
+      this.performanceTracker,
+      {
+        maxConcurrentExecutions: this.config.maxConcurrentTrades,
+        maxQueueSize: 20,
+        opportunityTtlMs: 15000
+      }
+    );
+
     // Initialize Telegram bot (only if valid token is provided)
     if (this.isTelegramConfigValid()) {
       this.telegramBot = new TelegramBot(
@@ -278,21 +335,43 @@ class ArbitrageBotApp {
       opportunities.forEach((opp: any) => this.performanceTracker.recordOpportunity(opp));
     });
 
-    this.arbitrageEngine.on('tradeExecuted', async (result) => {
-      logger.info(`Trade executed: ${result.successful ? 'SUCCESS' : 'FAILED'}`, result);
-      
-      // Record trade in performance tracker and risk manager
-      this.performanceTracker.recordTrade(result);
-      await this.riskManager.recordTrade(result);
+    this.arbitrageEngine.on('tradeExecuted', (result) => {
+      logger.info(`${result.simulated ? 'Paper trade' : 'Trade'} executed: ${result.successful ? 'SUCCESS' : 'FAILED'}`, result);
+    });
+
+    this.arbitrageEngine.on('riskRejected', ({ opportunity, reason }) => {
+      logger.info(`Risk rejected ${opportunity.tokenA.symbol}/${opportunity.tokenB.symbol}: ${reason}`);
+    });
+
+    // Execution coordinator events (trade results are recorded by the coordinator)
+    this.executionCoordinator.on('executionCompleted', ({ result }) => {
+      logger.info(`Execution completed: ${result.successful ? 'SUCCESS' : 'FAILED'}`, {
+        txHash: result.txHash,
+        netProfit: result.netProfit
+      });
+    });
+
+    this.executionCoordinator.on('error', (error) => {
+      logger.error('Execution coordinator error:', error);
     });
 
     this.arbitrageEngine.on('error', (error) => {
       logger.error('Arbitrage engine error:', error);
     });
 
+    // Price oracle events
+    this.arbitrageEngine.getPriceOracle().on('priceDivergent', ({ price, poolSpread, twapDeviation }) => {
+      logger.warn(`Price divergence for ${price.symbol}`, { poolSpread, twapDeviation });
+    });
+
+    this.arbitrageEngine.getPriceOracle().on('priceStale', (price) => {
+      logger.warn(`Stale price for ${price.symbol}`, { updatedAt: new Date(price.updatedAt).toISOString() });
+    });
+
     // Risk manager events
     this.riskManager.on('circuitBreakerTriggered', async (data) => {
       logger.error('Circuit breaker triggered:', data.reason);
+      this.executionCoordinator.stop();
       await this.arbitrageEngine.stop();
     });
 
@@ -385,6 +464,7 @@ class ArbitrageBotApp {
       // Start arbitrage engine (if blockchain connection is available)
       if (this.healthStatus.components.rpc) {
         try {
+          this.executionCoordinator.start();
           await this.arbitrageEngine.start();
           this.healthStatus.components.arbitrageEngine = true;
           logger.info('✅ Arbitrage engine started');
@@ -408,6 +488,10 @@ class ArbitrageBotApp {
         logger.warn('⚠️ Arbitrage bot started but no components are healthy');
       }
 
+      if (this.config.dryRun) {
+        logger.info('📝 DRY RUN mode: trades are simulated and never broadcast');
+      }
+
       logger.info(`💰 Initial capital: $${this.config.initialCapital.toLocaleString()}`);
       logger.info(`🎯 Min profit threshold: ${(this.config.minProfitThreshold * 100).toFixed(2)}%`);
 
@@ -471,6 +555,7 @@ class ArbitrageBotApp {
     logger.warn('🛑 Emergency stop initiated');
     
     try {
+      this.executionCoordinator.stop();
       await this.arbitrageEngine.stop();
       await this.riskManager.emergencyStop();
       
@@ -492,6 +577,7 @@ class ArbitrageBotApp {
       this.isRunning = false;
       
       // Stop services
+      this.executionCoordinator.stop();
       await this.arbitrageEngine.stop();
       if (this.telegramBot) {
         await this.telegramBot.stop();
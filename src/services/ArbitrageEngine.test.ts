@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { BigNumber, ethers } from 'ethers';
+import { ArbitrageEngine } from './ArbitrageEngine';
+import { BatchQuoteEngine } from './BatchQuoteEngine';
+import { GasManager } from './GasManager';
+import { PoolStateTracker } from './PoolStateTracker';
+import { SimulationResult } from './TradeSimulator';
+import { ArbitrageOpportunity, EXCHANGES, QuoteResult, TOKENS } from '../types';
+
+const { USDC, WMATIC } = TOKENS;
+
+function createEngine(): ArbitrageEngine {
+  // Never contacted: nothing here reaches the network
+  const provider = new ethers.providers.StaticJsonRpcProvider('http://127.0.0.1:8545', 137);
+  return new ArbitrageEngine(provider, {
+    minProfitThreshold: 1,
+    maxSlippagePercent: 0.5,
+    maxTradeAmountUSD: 10000,
+    gasLimitGwei: 100,
+    profitBufferPercent: 10,
+    updateIntervalMs: 2000,
+    trackPoolState: false
+  });
+}
+
+function quote(dex: string, amountOut: number, poolId?: string): QuoteResult {
+  return {
+    dex,
+    amountIn: BigNumber.from(1000),
+    amountOut: BigNumber.from(amountOut),
+    gasEstimate: BigNumber.from(150000),
+    priceImpact: 0,
+    poolId
+  };
+}
+
+// Engine whose quote engine returns the given sell quotes, best first
+function createEngineWithSellQuotes(sellQuotes: QuoteResult[]): ArbitrageEngine {
+  const engine = createEngine();
+  engine['batchQuoteEngine'] = {
+    getBatchQuotes: async () => sellQuotes,
+    getMulticallStats: () => ({})
+  } as unknown as BatchQuoteEngine;
+  return engine;
+}
+
+function opportunity(buyDex: string, sellDex: string): ArbitrageOpportunity {
+  return {
+    tokenA: USDC,
+    tokenB: WMATIC,
+    amountIn: BigNumber.from(1000),
+    buyDex,
+    sellDex,
+    buyPrice: BigNumber.from(0),
+    sellPrice: BigNumber.from(0),
+    profit: BigNumber.from(10),
+    profitPercent: 1,
+    gasEstimate: BigNumber.from(0),
+    netProfit: BigNumber.from(10),
+    buyPoolId: '0x01',
+    sellPoolId: '0x02'
+  };
+}
+
+describe('ArbitrageEngine Balancer routing', () => {
+  afterEach(() => {
+    delete EXCHANGES.BALANCER_BOOSTED;
+  });
+
+  it('settles pairs between Balancer-type venues in one Vault batchSwap, whatever their name', () => {
+    EXCHANGES.BALANCER_BOOSTED = { ...EXCHANGES.BALANCER, name: 'Balancer Boosted' };
+    const engine = createEngine();
+
+    expect(engine['isBalancerRoute'](opportunity('BALANCER', 'BALANCER'))).toBe(true);
+    expect(engine['isBalancerRoute'](opportunity('BALANCER_BOOSTED', 'BALANCER'))).toBe(true);
+    expect(engine['isBalancerRoute'](opportunity('BALANCER', 'QUICKSWAP'))).toBe(false);
+  });
+
+  // Routes mixing Balancer with another venue are not supported: the Vault is locked for the
+  // whole flash loan, so the Balancer leg could not run inside it
+  it('sells a Balancer buy only into another Balancer pool', async () => {
+    const engine = createEngineWithSellQuotes([quote('QUICKSWAP', 1100), quote('BALANCER', 1050, '0x02')]);
+    const sell = await engine['findSellQuote'](WMATIC, USDC, quote('BALANCER', 1000, '0x01'));
+
+    expect(sell?.dex).toBe('BALANCER');
+    expect(sell?.poolId).toBe('0x02');
+    expect(engine.getStats().mixedBalancerPairsSkipped).toBe(1);
+  });
+
+  it('never sells into the Balancer pool the buy used', async () => {
+    const engine = createEngineWithSellQuotes([quote('BALANCER', 1100, '0x01')]);
+    expect(await engine['findSellQuote'](WMATIC, USDC, quote('BALANCER', 1000, '0x01'))).toBeUndefined();
+  });
+
+  it('keeps other venues\' buys off Balancer sells and counts the skipped pair', async () => {
+    const engine = createEngineWithSellQuotes([quote('BALANCER', 1100, '0x02'), quote('SUSHISWAP', 1050)]);
+    const sell = await engine['findSellQuote'](WMATIC, USDC, quote('QUICKSWAP', 1000));
+
+    expect(sell?.dex).toBe('SUSHISWAP');
+    expect(engine.getStats().mixedBalancerPairsSkipped).toBe(1);
+  });
+
+  it('does not count pairs whose best sell is on the same side', async () => {
+    const engine = createEngineWithSellQuotes([quote('SUSHISWAP', 1100), quote('BALANCER', 1050, '0x02')]);
+    await engine['findSellQuote'](WMATIC, USDC, quote('QUICKSWAP', 1000));
+
+    expect(engine.getStats().mixedBalancerPairsSkipped).toBe(0);
+  });
+});
+
+describe('ArbitrageEngine price oracle', () => {
+  it('forwards oracle update failures through its own error event', () => {
+    const engine = createEngine();
+    const failure = new Error('price refresh failed');
+    const errors: unknown[] = [];
+    engine.on('error', error => errors.push(error));
+
+    engine.getPriceOracle().emit('error', failure);
+
+    expect(errors).toEqual([failure]);
+  });
+});
+
+describe('ArbitrageEngine nonces', () => {
+  const transaction = { to: '0x0000000000000000000000000000000000000001', data: '0x' };
+  const simulation = {
+    success: true,
+    blockNumber: 1,
+    simulatedProfit: BigNumber.from(10),
+    gasUsed: BigNumber.from(300000)
+  } as SimulationResult;
+
+  let engine: ArbitrageEngine;
+  let pendingCount: number;
+  let getTransactionCount: jest.Mock<() => Promise<number>>;
+  let sendTransaction: jest.Mock<(request: ethers.providers.TransactionRequest) => Promise<ethers.providers.TransactionResponse>>;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    engine = createEngine();
+    pendingCount = 7;
+    getTransactionCount = jest.fn(async () => pendingCount);
+    sendTransaction = jest.fn(async request => ({ nonce: request.nonce }) as ethers.providers.TransactionResponse);
+    engine['wallet'] = { address: transaction.to, getTransactionCount, sendTransaction } as unknown as ethers.Wallet;
+    engine['gasManager'] = { getOptimalGasPrice: async () => BigNumber.from(30) } as unknown as GasManager;
+  });
+
+  function send(): Promise<ethers.providers.TransactionResponse> {
+    return engine['sendArbitrageTransaction'](opportunity('QUICKSWAP', 'SUSHISWAP'), transaction, simulation);
+  }
+
+  it('hands parallel trades consecutive nonces from one pending count', async () => {
+    const sent = await Promise.all([send(), send(), send()]);
+
+    expect(sent.map(tx => tx.nonce)).toEqual([7, 8, 9]);
+    expect(getTransactionCount).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-reads the pending count after a send fails', async () => {
+    await send();
+    sendTransaction.mockRejectedValueOnce(new Error('nonce too low'));
+    await expect(send()).rejects.toThrow('nonce too low');
+
+    pendingCount = 8;
+    const next = await send();
+
+    expect(next.nonce).toBe(8);
+    expect(getTransactionCount).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('ArbitrageEngine quote block', () => {
+  const positionPools = ['0x00000000000000000000000000000000000000aa'];
+
+  let engine: ArbitrageEngine;
+  let invalidatePositions: jest.Mock<(poolAddresses: string[]) => void>;
+
+  beforeEach(() => {
+    engine = createEngine();
+    invalidatePositions = jest.fn();
+    engine['batchQuoteEngine'] = { setBlockNumber: () => undefined, invalidatePositions } as unknown as BatchQuoteEngine;
+    engine['poolStateTracker'] = {
+      getLastProcessedBlock: () => 100,
+      getPositionPools: () => positionPools
+    } as unknown as PoolStateTracker;
+  });
+
+  it('drops cached tick windows when quoting past the last block the tracker processed', () => {
+    engine['pinQuoteBlock'](102);
+
+    expect(invalidatePositions).toHaveBeenCalledWith(positionPools);
+  });
+
+  it('keeps them at a block whose pool events were already processed', () => {
+    engine['pinQuoteBlock'](100);
+
+    expect(invalidatePositions).not.toHaveBeenCalled();
+  });
+});
+
+describe('ArbitrageEngine swap steps', () => {
+  function stepFor(dex: string) {
+    return createEngine()['buildSwapStep']({
+      dex,
+      tokenIn: USDC,
+      tokenOut: WMATIC,
+      amountIn: BigNumber.from(1000),
+      expectedAmountOut: BigNumber.from(1000)
+    });
+  }
+
+  it('gives SushiSwap its own contract exchange id', () => {
+    expect(stepFor('SUSHISWAP').dex).toBe(2);
+    expect(stepFor('SUSHISWAP').target).toBe(EXCHANGES.SUSHISWAP.router);
+  });
+
+  it('keeps QuickSwap and the other venues on their type\'s id', () => {
+    expect(stepFor('QUICKSWAP').dex).toBe(1);
+    expect(stepFor('UNISWAP_V3').dex).toBe(0);
+    expect(stepFor('CURVE').dex).toBe(3);
+  });
+});
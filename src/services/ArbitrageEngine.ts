@@ -1,40 +1,168 @@
 import { ethers, BigNumber } from 'ethers';
 import { BatchQuoteEngine } from './BatchQuoteEngine';
 import { GasManager, GasCostAnalysis } from './GasManager';
-import { ArbitrageOpportunity, QuoteResult, TokenInfo, TradeResult, TOKENS } from '../types';
+import { ArbitrageGraph } from './ArbitrageGraph';
+import { TradeSizeOptimizer } from './TradeSizeOptimizer';
+import { TradeSizer } from './TradeSizer';
+import { PriceOracle } from './PriceOracle';
+import { PoolStateTracker } from './PoolStateTracker';
+import { TradeSimulator, SimulationResult } from './TradeSimulator';
+import { FlashLoanSelector, FlashLoanQuote } from './FlashLoanSelector';
+import { RiskManager } from './RiskManager';
+import { MEVProtection, ProtectedTransaction } from './MEVProtection';
+import { BaseExchange } from '../exchanges/BaseExchange';
+import { BalancerExchange } from '../exchanges/BalancerExchange';
+import { UniswapV3Exchange } from '../exchanges/UniswapV3Exchange';
+import { FlashArbitrageBotClient, getFlashArbitrageBotInterface } from '../contracts/FlashArbitrageBotClient';
+import {
+  ArbitrageOpportunity,
+  ExchangeType,
+  EXCHANGES,
+  MultiLegOpportunity,
+  QuoteResult,
+  RouteLeg,
+  TokenInfo,
+  TradeResult,
+  TOKENS,
+  getPairKey,
+  isMultiLegOpportunity
+} from '../types';
 import { EventEmitter } from 'events';
 
+// Notional used to screen routes before sizing
+const SCREENING_TRADE_USD = 1000;
+
+// Without a header for this long the WebSocket is treated as dead
+const BLOCK_STALL_TIMEOUT_MS = 30000;
+
+// Mirrors the Exchange enum in FlashArbitrageBot.sol; a step's id selects the swap interface,
+// so a Uniswap V2 fork without its own id uses QUICKSWAP's with its own router
+const CONTRACT_EXCHANGE_IDS: Record<ExchangeType, number> = {
+  'uniswap-v3': 0,
+  'uniswap-v2-fork': 1,
+  curve: 3,
+  balancer: 4,
+  algebra: 5
+};
+
+// Venues the enum names on their own
+const CONTRACT_EXCHANGE_IDS_BY_DEX: Record<string, number> = {
+  SUSHISWAP: 2
+};
+
+// One swap of FlashArbitrageBot's route; each step spends the whole output of the one before
+export interface SwapStep {
+  dex: number;
+  target: string; // Router, or the pool itself for Curve
+  tokenIn: string;
+  tokenOut: string;
+  fee: number; // Uniswap V3 fee tier, 0 elsewhere
+  minOut: BigNumber;
+}
+
+export interface ArbitrageParams {
+  tokenA: string; // Borrowed token; the route starts and ends in it
+  amount: BigNumber;
+  minProfit: BigNumber;
+  steps: SwapStep[];
+}
+
+// The venue and pool a leg was found on, re-quoted at each size the trade sizer tries
+type QuotedLeg = Pick<RouteLeg, 'dex' | 'tokenIn' | 'tokenOut' | 'fee' | 'poolId'>;
+
 export interface ArbitrageConfig {
   minProfitThreshold: number; // Minimum profit in USD
   maxSlippagePercent: number; // Maximum acceptable slippage
   maxTradeAmountUSD: number; // Maximum trade size
   gasLimitGwei: number; // Maximum gas price in Gwei
   profitBufferPercent: number; // Safety buffer for profit calculations
-  updateIntervalMs: number; // How often to scan for opportunities
+  updateIntervalMs: number; // How often to scan for opportunities in interval mode
+  scanMode?: 'block' | 'interval'; // Scan on every new block (default) or on a fixed timer
+  blockPollIntervalMs?: number; // Block number polling period when no WebSocket is available
+  trackPoolState?: boolean; // In block mode, only re-analyse pairs whose pools emitted events
+  contractAddress?: string; // Deployed FlashArbitrageBot address
+  dryRun?: boolean; // Paper trade: run the full pipeline but never broadcast
+  enableTriangular?: boolean; // Also scan three-token cycles anchored at USDC
+  enableGraphSearch?: boolean; // Search all token cycles instead of the fixed pair and triangle lists
+  maxCycleLength?: number; // Longest cycle the graph search considers
 }
 
 export class ArbitrageEngine extends EventEmitter {
   private provider: ethers.providers.Provider;
   private batchQuoteEngine: BatchQuoteEngine;
   private gasManager: GasManager;
+  private arbitrageGraph: ArbitrageGraph;
+  private tradeSizeOptimizer: TradeSizeOptimizer;
+  private tradeSizer: TradeSizer;
+  private priceOracle: PriceOracle;
+  private flashLoanSelector: FlashLoanSelector;
+  private poolStateTracker?: PoolStateTracker;
   private config: ArbitrageConfig;
+  private wallet?: ethers.Wallet;
+  private arbitrageContract?: FlashArbitrageBotClient;
+  private tradeSimulator: TradeSimulator;
+  private riskManager?: RiskManager;
+  private mevProtection?: MEVProtection;
   private isRunning: boolean = false;
   private scanInterval?: NodeJS.Timeout;
+  private blockProvider?: ethers.providers.WebSocketProvider;
+  private blockPollTimer?: ReturnType<typeof setInterval>;
+  private blockWatchdog?: ReturnType<typeof setInterval>;
+  private blockSource: 'websocket' | 'polling' | 'interval' = 'interval';
+  private isScanning: boolean = false;
+  private gasCheckTimer?: ReturnType<typeof setTimeout>;
+  private scanTimer?: ReturnType<typeof setTimeout>;
+  private latestBlockNumber: number = 0;
+  private lastScannedBlock: number = 0;
+  private quoteBlock?: number; // Block every quote is currently pinned to
+  private nextNonce?: number; // Next nonce to hand out; read from the pending count when unset
+  private nonceReservation: Promise<unknown> = Promise.resolve();
+  private lastBlockReceivedAt: number = 0;
   private lastScanTimestamp: number = 0;
+  private scanMetrics = {
+    totalScans: 0,
+    blocksSkipped: 0, // Blocks that arrived while a scan was running and were never scanned
+    overlappingScansSkipped: 0, // Interval ticks dropped because the previous scan was still running
+    unchangedBlocksSkipped: 0, // Blocks where no tracked pool emitted an event
+    mixedBalancerPairsSkipped: 0 // Pairs whose best sell was across the Balancer/other divide (see findSellQuote)
+  };
   private opportunityHistory: Map<string, ArbitrageOpportunity[]> = new Map();
   private consecutiveEmptyScans: number = 0;
-  private dynamicScanInterval: number;
+
+  private readonly onBlock = (blockNumber: number) => {
+    this.handleNewBlock(blockNumber);
+  };
 
   constructor(
     provider: ethers.providers.Provider,
-    config: ArbitrageConfig
+    config: ArbitrageConfig,
+    privateKey?: string
   ) {
     super();
     this.provider = provider;
     this.batchQuoteEngine = new BatchQuoteEngine(provider);
     this.gasManager = new GasManager(provider);
+    // Cycles execute as flash loan swap steps, which cannot include Balancer (see buildArbitrageParams)
+    const balancerDexes = Object.keys(EXCHANGES).filter(name => this.isBalancerDex(name));
+    this.arbitrageGraph = new ArbitrageGraph(this.batchQuoteEngine, Object.values(TOKENS), TOKENS.USDC, balancerDexes);
+    this.tradeSizeOptimizer = new TradeSizeOptimizer();
+    this.priceOracle = new PriceOracle(this.batchQuoteEngine);
+    // The oracle refreshes on its own interval; surface its failures where the engine's listeners see them
+    this.priceOracle.on('error', error => this.emit('error', error));
+    this.tradeSizer = new TradeSizer(this.priceOracle);
+    this.flashLoanSelector = new FlashLoanSelector(provider);
+    this.gasManager.setPriceOracle(this.priceOracle);
+    this.tradeSimulator = new TradeSimulator(provider, getFlashArbitrageBotInterface());
     this.config = config;
-    this.dynamicScanInterval = config.updateIntervalMs;
+
+    // Pool events are fetched with a multi-address eth_getLogs, which needs a JSON-RPC provider
+    if (config.trackPoolState !== false && provider instanceof ethers.providers.JsonRpcProvider) {
+      this.poolStateTracker = new PoolStateTracker(provider);
+    }
+
+    if (privateKey) {
+      this.wallet = new ethers.Wallet(privateKey, provider);
+    }
   }
 
   async start(): Promise<void> {
@@ -46,18 +174,27 @@ export class ArbitrageEngine extends EventEmitter {
     this.isRunning = true;
     console.log('Starting arbitrage opportunity scanner...');
 
-    // Initial scan
-    await this.scanForOpportunities();
+    // Prices feed gas, sizing and risk conversions, so fetch them before the first scan
+    await this.priceOracle.start();
 
-    // Set up periodic scanning
-    this.scanInterval = setInterval(async () => {
-      try {
-        await this.scanForOpportunities();
-      } catch (error) {
-        console.error('Error during opportunity scan:', error);
-        this.emit('error', error);
-      }
-    }, this.config.updateIntervalMs);
+    if (this.config.scanMode === 'interval') {
+      this.blockSource = 'interval';
+
+      // Initial scan
+      await this.runScan();
+
+      // Set up periodic scanning
+      this.scanInterval = setInterval(() => {
+        if (this.isScanning) {
+          this.scanMetrics.overlappingScansSkipped++;
+          return;
+        }
+        this.runScan();
+      }, this.config.updateIntervalMs);
+    } else {
+      await this.startPoolStateTracking();
+      this.startBlockListener();
+    }
 
     this.emit('started');
   }
@@ -74,16 +211,145 @@ export class ArbitrageEngine extends EventEmitter {
       this.scanInterval = undefined;
     }
 
+    this.stopBlockListener();
+    this.clearScanTimers();
+    this.priceOracle.stop();
+
     console.log('Arbitrage engine stopped');
     this.emit('stopped');
   }
 
-  private async scanForOpportunities(): Promise<void> {
+  private async startPoolStateTracking(): Promise<void> {
+    if (!this.poolStateTracker) {
+      return;
+    }
+
+    try {
+      await this.poolStateTracker.trackPairs(this.getTrackedPairs());
+      this.batchQuoteEngine.watchPositionEvents(this.poolStateTracker.getPositionPools());
+    } catch (error: any) {
+      console.warn('Pool state tracking unavailable, scanning every pair on each block:', error.message || error);
+      this.poolStateTracker = undefined;
+    }
+  }
+
+  private startBlockListener(): void {
+    this.lastBlockReceivedAt = Date.now();
+
+    if (!this.blockProvider) {
+      console.log('No WebSocket provider, polling for new blocks');
+      this.startBlockPolling();
+      return;
+    }
+
+    this.blockSource = 'websocket';
+    this.blockProvider.on('block', this.onBlock);
+    console.log('Scanning on new block headers from WebSocket');
+
+    // Headers stop silently when the socket drops, so fall back to polling
+    this.blockWatchdog = setInterval(() => {
+      if (this.blockSource === 'websocket' && Date.now() - this.lastBlockReceivedAt > BLOCK_STALL_TIMEOUT_MS) {
+        console.warn(`No block headers for ${BLOCK_STALL_TIMEOUT_MS / 1000}s, falling back to polling`);
+        this.blockProvider?.off('block', this.onBlock);
+        this.startBlockPolling();
+      }
+    }, BLOCK_STALL_TIMEOUT_MS / 3);
+  }
+
+  private startBlockPolling(): void {
+    this.blockSource = 'polling';
+    this.emit('blockSourceChanged', this.blockSource);
+
+    this.blockPollTimer = setInterval(async () => {
+      try {
+        this.handleNewBlock(await this.provider.getBlockNumber());
+      } catch (error: any) {
+        console.warn('Block number polling failed:', error.message || error);
+      }
+    }, this.config.blockPollIntervalMs || 2000);
+  }
+
+  private stopBlockListener(): void {
+    this.blockProvider?.off('block', this.onBlock);
+
+    if (this.blockPollTimer) {
+      clearInterval(this.blockPollTimer);
+      this.blockPollTimer = undefined;
+    }
+
+    if (this.blockWatchdog) {
+      clearInterval(this.blockWatchdog);
+      this.blockWatchdog = undefined;
+    }
+  }
+
+  private handleNewBlock(blockNumber: number): void {
+    if (!this.isRunning || blockNumber <= this.latestBlockNumber) {
+      return;
+    }
+
+    this.latestBlockNumber = blockNumber;
+    this.lastBlockReceivedAt = Date.now();
+
+    // A running scan picks up the newest block when it finishes
+    if (!this.isScanning) {
+      this.scanToChainHead();
+    }
+  }
+
+  private async scanToChainHead(): Promise<void> {
+    // Blocks that arrive during a scan are coalesced into one scan of the newest block
+    while (this.isRunning && !this.isScanning && this.latestBlockNumber > this.lastScannedBlock) {
+      const blockNumber = this.latestBlockNumber;
+
+      if (this.lastScannedBlock > 0) {
+        this.scanMetrics.blocksSkipped += blockNumber - this.lastScannedBlock - 1;
+      }
+      this.lastScannedBlock = blockNumber;
+
+      await this.runScan(blockNumber);
+    }
+  }
+
+  private async runScan(blockNumber?: number): Promise<void> {
+    if (this.isScanning) {
+      return;
+    }
+
+    this.isScanning = true;
+    try {
+      await this.scanForOpportunities(blockNumber);
+      this.scanMetrics.totalScans++;
+    } catch (error) {
+      console.error('Error during opportunity scan:', error);
+      this.emit('error', error);
+    } finally {
+      this.isScanning = false;
+    }
+  }
+
+  private async scanForOpportunities(blockNumber?: number): Promise<void> {
     const startTime = Date.now();
     this.lastScanTimestamp = startTime;
 
     try {
-      console.log(`Starting arbitrage scan at ${new Date().toISOString()}`);
+      const changedPairs = await this.getChangedPairs(blockNumber);
+      if (changedPairs && changedPairs.size === 0) {
+        console.log(`No tracked pools changed in block ${blockNumber}, skipping scan`);
+        this.scanMetrics.unchangedBlocksSkipped++;
+        return;
+      }
+
+      console.log(`Starting arbitrage scan${blockNumber ? ` for block ${blockNumber}` : ''} at ${new Date().toISOString()}`);
+      if (changedPairs) {
+        console.log(`Pools changed for ${changedPairs.size} pairs: ${Array.from(changedPairs).join(', ')}`);
+      }
+
+      // Every quote of the scan reads the same block, so no two legs straddle a pool update
+      const scanBlock = blockNumber ?? await this.provider.getBlockNumber().catch(() => undefined);
+      if (scanBlock !== undefined) {
+        this.pinQuoteBlock(scanBlock);
+      }
 
       // Check if gas price is acceptable with timeout
       const gasCheckPromise = this.gasManager.isGasPriceAcceptable(
@@ -94,12 +360,13 @@ export class ArbitrageEngine extends EventEmitter {
       const gasAcceptable = await Promise.race([
         gasCheckPromise,
         new Promise<boolean>((resolve) => {
-          setTimeout(() => {
+          this.gasCheckTimer = setTimeout(() => {
             console.warn('Gas price check timeout, proceeding with scan');
             resolve(true);
           }, 5000);
         })
       ]);
+      clearTimeout(this.gasCheckTimer);
 
       if (!gasAcceptable) {
         console.log('Gas price too high, skipping scan');
@@ -108,18 +375,19 @@ export class ArbitrageEngine extends EventEmitter {
       }
 
       // Add timeout to the entire opportunity finding process
-      const opportunitiesPromise = this.findArbitrageOpportunities();
+      const opportunitiesPromise = this.findArbitrageOpportunities(changedPairs);
       const scanTimeout = new Promise<ArbitrageOpportunity[]>((resolve) => {
-        setTimeout(() => {
+        this.scanTimer = setTimeout(() => {
           console.warn('Opportunity scan timeout, returning empty results');
           resolve([]);
         }, 30000); // 30 second timeout
       });
 
       const opportunities = await Promise.race([opportunitiesPromise, scanTimeout]);
+      clearTimeout(this.scanTimer);
 
       // Filter and rank opportunities
-      const viableOpportunities = opportunities
+      const rankedOpportunities = opportunities
         .filter(op => {
           try {
             return this.isOpportunityViable(op);
@@ -137,6 +405,12 @@ export class ArbitrageEngine extends EventEmitter {
         })
         .slice(0, 5); // Top 5 opportunities
 
+      // Size each surviving opportunity, then re-rank on the resized profit
+      const sizedOpportunities = await Promise.all(rankedOpportunities.map(op => this.optimizeTradeSize(op)));
+      const viableOpportunities = sizedOpportunities
+        .filter(op => this.isOpportunityViable(op))
+        .sort((a, b) => b.netProfit.gt(a.netProfit) ? 1 : -1);
+
       if (viableOpportunities.length > 0) {
         console.log(`Found ${viableOpportunities.length} viable opportunities`);
         this.consecutiveEmptyScans = 0;
@@ -166,6 +440,7 @@ export class ArbitrageEngine extends EventEmitter {
       console.log(`Scan completed in ${scanDuration}ms`);
 
       this.emit('scanCompleted', {
+        blockNumber,
         duration: scanDuration,
         opportunitiesFound: opportunities.length,
         viableOpportunities: viableOpportunities.length
@@ -175,13 +450,64 @@ export class ArbitrageEngine extends EventEmitter {
       console.error('Scan error:', error.message || error);
       this.consecutiveEmptyScans++;
       this.emit('scanError', error);
+    } finally {
+      this.clearScanTimers();
     }
   }
 
-  private async findArbitrageOpportunities(): Promise<ArbitrageOpportunity[]> {
+  private clearScanTimers(): void {
+    clearTimeout(this.gasCheckTimer);
+    clearTimeout(this.scanTimer);
+    this.gasCheckTimer = undefined;
+    this.scanTimer = undefined;
+  }
+
+  // Pins quotes and flash loan liquidity probes to one block. Never moves back, so a scan that
+  // starts after an execution revalidated at a newer block quotes that newer block too.
+  private pinQuoteBlock(blockNumber: number): void {
+    if (this.quoteBlock !== undefined && blockNumber <= this.quoteBlock) {
+      return;
+    }
+
+    // Mint and Burn events in blocks the tracker has not processed yet would not reach the cached tick windows
+    if (this.poolStateTracker && blockNumber > this.poolStateTracker.getLastProcessedBlock()) {
+      this.batchQuoteEngine.invalidatePositions(this.poolStateTracker.getPositionPools());
+    }
+
+    this.quoteBlock = blockNumber;
+    this.batchQuoteEngine.setBlockNumber(blockNumber);
+    this.flashLoanSelector.setBlockNumber(blockNumber);
+  }
+
+  // Pairs whose pools changed in this block, or undefined when every pair should be scanned
+  private async getChangedPairs(blockNumber?: number): Promise<Set<string> | undefined> {
+    if (!this.poolStateTracker || !blockNumber) {
+      return undefined;
+    }
+
+    try {
+      const changes = await this.poolStateTracker.processBlock(blockNumber);
+      this.batchQuoteEngine.invalidatePositions(Array.from(changes.positionPools));
+
+      // The first scan has no earlier state to compare against
+      return this.scanMetrics.totalScans > 0 ? changes.pairs : undefined;
+    } catch (error: any) {
+      console.warn(`Failed to process pool events for block ${blockNumber}, scanning every pair:`, error.message || error);
+      // A Mint or Burn may be among the missed events
+      this.batchQuoteEngine.invalidatePositions(this.poolStateTracker.getPositionPools());
+      return undefined;
+    }
+  }
+
+  private async findArbitrageOpportunities(changedPairs?: Set<string>): Promise<ArbitrageOpportunity[]> {
     const opportunities: ArbitrageOpportunity[] = [];
-    const tokenPairs = this.generateTokenPairs();
-    const tradeAmounts = this.generateTradeAmounts();
+    const tokenPairs = this.generateTokenPairs()
+      .filter(({ tokenA, tokenB }) => !changedPairs || changedPairs.has(getPairKey(tokenA, tokenB)));
+    const screeningAmount = await this.tradeSizer.toTokenAmount(TOKENS.USDC, SCREENING_TRADE_USD);
+
+    if (this.config.enableGraphSearch) {
+      return this.findGraphOpportunities(screeningAmount);
+    }
 
     // Limit concurrent operations to avoid overwhelming the RPC
     const maxConcurrency = 3;
@@ -192,10 +518,9 @@ export class ArbitrageEngine extends EventEmitter {
 
       const batchPromise = Promise.all(
         batch.map(async ({ tokenA, tokenB }) => {
-          // Only test the most liquid amount to reduce load
-          const amount = tradeAmounts[1]; // Use middle amount
-
           try {
+            // Screen at a fixed notional; viable opportunities are sized afterwards
+            const amount = await this.tradeSizer.toTokenAmount(tokenA, SCREENING_TRADE_USD);
             const opportunity = await this.analyzeTokenPair(tokenA, tokenB, amount);
             if (opportunity) {
               opportunities.push(opportunity);
@@ -209,21 +534,69 @@ export class ArbitrageEngine extends EventEmitter {
       analysisPromises.push(batchPromise);
     }
 
+    if (this.config.enableTriangular) {
+      const routes = this.generateTriangularRoutes()
+        .filter(route => !changedPairs || this.getRoutePairKeys(route).some(pairKey => changedPairs.has(pairKey)));
+      const amount = screeningAmount; // Routes are anchored at USDC
+
+      for (let i = 0; i < routes.length; i += maxConcurrency) {
+        const batch = routes.slice(i, i + maxConcurrency);
+
+        const batchPromise = Promise.all(
+          batch.map(async route => {
+            const opportunity = await this.analyzeCyclicRoute(route, amount);
+            if (opportunity) {
+              opportunities.push(opportunity);
+            }
+          })
+        ).then(() => {});
+
+        analysisPromises.push(batchPromise);
+      }
+    }
+
     // Wait for all batches to complete
     await Promise.allSettled(analysisPromises);
 
     return opportunities;
   }
 
+  private async findGraphOpportunities(anchorAmount: BigNumber): Promise<ArbitrageOpportunity[]> {
+    await this.arbitrageGraph.build(anchorAmount);
+
+    // Cycles are found at probe-size rates, re-quote the best ones at execution size
+    const cycles = this.arbitrageGraph
+      .findProfitableCycles(this.config.maxCycleLength || 4)
+      .slice(0, 10);
+
+    console.log(`Graph search found ${cycles.length} candidate cycles`);
+
+    const results = await Promise.all(cycles.map(async cycle => {
+      const [startToken, nextToken] = cycle.tokens;
+      const amountIn = this.arbitrageGraph.getProbeAmount(startToken)!;
+
+      // Two-leg cycles across different exchanges are executable as a plain pair trade
+      if (cycle.tokens.length === 2 && cycle.edges[0].dex !== cycle.edges[1].dex) {
+        return this.analyzeTokenPair(startToken, nextToken, amountIn);
+      }
+
+      return this.analyzeCyclicRoute(cycle.tokens, amountIn);
+    }));
+
+    return results.filter((opportunity): opportunity is ArbitrageOpportunity => opportunity !== null);
+  }
+
   private async analyzeTokenPair(
     tokenA: TokenInfo,
     tokenB: TokenInfo,
     amountIn: BigNumber
   ): Promise<ArbitrageOpportunity | null> {
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
     try {
       // Add timeout for the entire analysis
       const analysisTimeout = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error(`Token pair analysis timeout for ${tokenA.symbol}-${tokenB.symbol}`)), 15000);
+        timeoutHandle = setTimeout(() => reject(new Error(`Token pair analysis timeout for ${tokenA.symbol}-${tokenB.symbol}`)), 15000);
       });
 
       const analysisPromise = this.performTokenPairAnalysis(tokenA, tokenB, amountIn);
@@ -236,6 +609,8 @@ export class ArbitrageEngine extends EventEmitter {
         console.warn(`Analysis failed for ${tokenA.symbol}-${tokenB.symbol}:`, error.message || error);
       }
       return null;
+    } finally {
+      clearTimeout(timeoutHandle);
     }
   }
 
@@ -244,60 +619,59 @@ export class ArbitrageEngine extends EventEmitter {
     tokenB: TokenInfo,
     amountIn: BigNumber
   ): Promise<ArbitrageOpportunity | null> {
-    // Get quotes with timeout
-    const [forwardQuotes, reverseQuotes] = await Promise.all([
-      this.batchQuoteEngine.getBatchQuotes(tokenA, tokenB, amountIn, 8000),
-      this.batchQuoteEngine.getBatchQuotes(tokenB, tokenA, amountIn, 8000)
-    ]);
-
-    // Check if we have sufficient quotes for arbitrage
-    if (forwardQuotes.length === 0 || reverseQuotes.length === 0) {
-      return null;
-    }
-
-    // If we only have one quote per direction, we can't do arbitrage
-    if (forwardQuotes.length < 2 && reverseQuotes.length < 2) {
+    // Buy tokenB with tokenA at the best venue
+    const forwardQuotes = await this.batchQuoteEngine.getBatchQuotes(tokenA, tokenB, amountIn, 8000);
+    if (forwardQuotes.length === 0) {
       return null;
     }
 
-    // Find best quotes from different exchanges
-    let bestBuy: QuoteResult | null = null;
-    let bestSell: QuoteResult | null = null;
+    let bestBuy: QuoteResult = forwardQuotes[0]; // Sorted best first
+    let bestSell = await this.findSellQuote(tokenB, tokenA, bestBuy);
 
-    // For forward direction (tokenA -> tokenB)
-    for (const quote of forwardQuotes) {
-      if (!bestBuy || quote.amountOut.gt(bestBuy.amountOut)) {
-        bestBuy = quote;
+    // A Balancer buy with no other Balancer pool to sell into falls back to the best other venue
+    if (!bestSell && this.isBalancerDex(bestBuy.dex)) {
+      const otherBuy = forwardQuotes.find(quote => !this.isBalancerDex(quote.dex));
+      if (otherBuy) {
+        bestBuy = otherBuy;
+        bestSell = await this.findSellQuote(tokenB, tokenA, bestBuy);
       }
     }
 
-    // For reverse direction (tokenB -> tokenA)
-    for (const quote of reverseQuotes) {
-      if (!bestSell || quote.amountOut.gt(bestSell.amountOut)) {
-        bestSell = quote;
-      }
+    if (!bestSell) {
+      return null; // Need different exchanges or pools for arbitrage
+    }
+
+    if (bestBuy.blockNumber !== bestSell.blockNumber) {
+      console.warn(`Rejecting ${tokenA.symbol}-${tokenB.symbol}: legs quoted at blocks ${bestBuy.blockNumber} and ${bestSell.blockNumber}`);
+      return null;
     }
 
-    if (!bestBuy || !bestSell || bestBuy.dex === bestSell.dex) {
-      return null; // Need different exchanges for arbitrage
+    if (bestSell.amountOut.lte(amountIn)) {
+      return null;
     }
 
     // Calculate arbitrage potential
     const buyPrice = this.calculatePrice(amountIn, bestBuy.amountOut, tokenA.decimals, tokenB.decimals);
-    const sellPrice = this.calculatePrice(amountIn, bestSell.amountOut, tokenB.decimals, tokenA.decimals);
+    const sellPrice = this.calculatePrice(bestBuy.amountOut, bestSell.amountOut, tokenB.decimals, tokenA.decimals);
+
+    const profitInTokenA = bestSell.amountOut.sub(amountIn);
+    const profitPercent = profitInTokenA.mul(10000).div(amountIn).toNumber() / 100;
 
-    // Check if there's a profitable spread
-    if (sellPrice.lte(buyPrice)) {
+    // Skip if profit is too small to be realistic
+    if (profitPercent < 0.01) {
       return null;
     }
 
-    const grossProfit = sellPrice.sub(buyPrice);
-    const profitPercent = grossProfit.mul(10000).div(buyPrice).toNumber() / 100;
+    // Express profit in MATIC wei so it nets against gas
+    const grossProfit = await this.convertToNativeWei(tokenA, profitInTokenA);
 
-    // Skip if profit is too small to be realistic
-    if (profitPercent < 0.01) {
+    // Balancer-only pairs settle in one batchSwap and borrow nothing
+    const borrows = !this.isBalancerDex(bestBuy.dex);
+    const flashLoan = borrows ? await this.getFlashLoanCost(tokenA, amountIn) : undefined;
+    if (flashLoan === null) {
       return null;
     }
+    const flashLoanFeeWei = flashLoan?.feeWei ?? BigNumber.from(0);
 
     try {
       // Calculate gas costs with timeout
@@ -307,14 +681,15 @@ export class ArbitrageEngine extends EventEmitter {
         await this.gasManager.getOptimalGasPrice()
       );
 
+      let gasTimeoutHandle: ReturnType<typeof setTimeout> | undefined;
       const gasCost = await Promise.race([
         gasCostPromise,
-        new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error('Gas cost calculation timeout')), 3000)
-        )
-      ]);
+        new Promise<never>((_, reject) => {
+          gasTimeoutHandle = setTimeout(() => reject(new Error('Gas cost calculation timeout')), 3000);
+        })
+      ]).finally(() => clearTimeout(gasTimeoutHandle));
 
-      const netProfit = grossProfit.sub(gasCost.totalCostWei);
+      const netProfit = grossProfit.sub(gasCost.totalCostWei).sub(flashLoanFeeWei);
 
       return {
         tokenA,
@@ -327,13 +702,22 @@ export class ArbitrageEngine extends EventEmitter {
         profit: grossProfit,
         profitPercent,
         gasEstimate: gasCost.totalGas,
-        netProfit
+        netProfit,
+        buyFee: bestBuy.fee,
+        sellFee: bestSell.fee,
+        buyPoolId: bestBuy.poolId,
+        sellPoolId: bestSell.poolId,
+        buyAmountOut: bestBuy.amountOut,
+        sellAmountOut: bestSell.amountOut,
+        blockNumber: bestBuy.blockNumber,
+        flashLoanProvider: flashLoan?.quote.provider,
+        flashLoanFee: flashLoan?.quote.fee
       };
     } catch (gasError) {
       // If gas calculation fails, use default estimates
       const defaultGasEstimate = BigNumber.from(500000);
       const defaultGasCost = defaultGasEstimate.mul(ethers.utils.parseUnits('30', 'gwei'));
-      const netProfit = grossProfit.sub(defaultGasCost);
+      const netProfit = grossProfit.sub(defaultGasCost).sub(flashLoanFeeWei);
 
       return {
         tokenA,
@@ -346,11 +730,301 @@ export class ArbitrageEngine extends EventEmitter {
         profit: grossProfit,
         profitPercent,
         gasEstimate: defaultGasEstimate,
-        netProfit
+        netProfit,
+        buyFee: bestBuy.fee,
+        sellFee: bestSell.fee,
+        buyPoolId: bestBuy.poolId,
+        sellPoolId: bestSell.poolId,
+        buyAmountOut: bestBuy.amountOut,
+        sellAmountOut: bestSell.amountOut,
+        blockNumber: bestBuy.blockNumber,
+        flashLoanProvider: flashLoan?.quote.provider,
+        flashLoanFee: flashLoan?.quote.fee
       };
     }
   }
 
+  private async analyzeCyclicRoute(
+    route: TokenInfo[],
+    amountIn: BigNumber
+  ): Promise<MultiLegOpportunity | null> {
+    const routeName = route.map(token => token.symbol).join('->');
+
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      // Legs are quoted sequentially, so allow more time for longer routes
+      const analysisTimeout = new Promise<never>((_, reject) => {
+        timeoutHandle = setTimeout(() => reject(new Error(`Route analysis timeout for ${routeName}`)), 7000 * route.length);
+      });
+
+      return await Promise.race([this.performCyclicRouteAnalysis(route, amountIn), analysisTimeout]);
+    } catch (error: any) {
+      console.warn(`Route analysis failed for ${routeName}:`, error.message || error);
+      return null;
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+  }
+
+  // Best venue to sell exactly what the buy leg returned. Balancer pairs only with Balancer: both
+  // legs settle in one Vault batchSwap, while a mixed pair would need a Balancer swap inside the
+  // Vault's flash loan, which the Vault's lock forbids.
+  private async findSellQuote(tokenB: TokenInfo, tokenA: TokenInfo, buy: QuoteResult): Promise<QuoteResult | undefined> {
+    const reverseQuotes = await this.batchQuoteEngine.getBatchQuotes(tokenB, tokenA, buy.amountOut, 8000);
+    const balancerBuy = this.isBalancerDex(buy.dex);
+
+    if (reverseQuotes.length > 0 && this.isBalancerDex(reverseQuotes[0].dex) !== balancerBuy) {
+      this.scanMetrics.mixedBalancerPairsSkipped++;
+    }
+
+    // Venues with several pools per pair can arbitrage against themselves through a different pool
+    return reverseQuotes.find(quote =>
+      this.isBalancerDex(quote.dex) === balancerBuy &&
+      (quote.dex !== buy.dex || (quote.poolId !== undefined && quote.poolId !== buy.poolId))
+    );
+  }
+
+  private async performCyclicRouteAnalysis(
+    route: TokenInfo[],
+    amountIn: BigNumber
+  ): Promise<MultiLegOpportunity | null> {
+    const legs: RouteLeg[] = [];
+    const quoteBlocks: Set<number | undefined> = new Set();
+    let legAmountIn = amountIn;
+
+    // Walk the cycle, taking the best venue for each leg
+    for (let i = 0; i < route.length; i++) {
+      const tokenIn = route[i];
+      const tokenOut = route[(i + 1) % route.length];
+      const quotes = await this.batchQuoteEngine.getBatchQuotes(tokenIn, tokenOut, legAmountIn, 6000);
+
+      if (quotes.length === 0) {
+        return null;
+      }
+
+      // Sorted best first; Balancer legs cannot run inside the flash loan (see buildArbitrageParams)
+      const bestQuote = quotes.find(quote => !this.isBalancerDex(quote.dex));
+      if (!bestQuote) {
+        return null;
+      }
+
+      quoteBlocks.add(bestQuote.blockNumber);
+      legs.push({
+        dex: bestQuote.dex,
+        tokenIn,
+        tokenOut,
+        amountIn: legAmountIn,
+        expectedAmountOut: bestQuote.amountOut,
+        fee: bestQuote.fee,
+        poolId: bestQuote.poolId
+      });
+      legAmountIn = bestQuote.amountOut;
+    }
+
+    if (quoteBlocks.size > 1) {
+      console.warn(`Rejecting ${route.map(token => token.symbol).join('->')}: legs quoted at blocks ${Array.from(quoteBlocks).join(', ')}`);
+      return null;
+    }
+
+    const amountOut = legAmountIn;
+    if (amountOut.lte(amountIn)) {
+      return null;
+    }
+
+    const profitInStartToken = amountOut.sub(amountIn);
+    const profitPercent = profitInStartToken.mul(10000).div(amountIn).toNumber() / 100;
+
+    // Skip if profit is too small to be realistic
+    if (profitPercent < 0.01) {
+      return null;
+    }
+
+    // Express profit in MATIC wei so it nets against gas like pairwise opportunities
+    const profit = await this.convertToNativeWei(route[0], profitInStartToken);
+
+    const flashLoan = await this.getFlashLoanCost(route[0], amountIn);
+    if (!flashLoan) {
+      return null;
+    }
+
+    let gasEstimate: BigNumber;
+    let gasCostWei: BigNumber;
+    try {
+      const gasCost = this.gasManager.calculateRouteGasCost(
+        legs.map(leg => leg.dex),
+        await this.gasManager.getOptimalGasPrice()
+      );
+      gasEstimate = gasCost.totalGas;
+      gasCostWei = gasCost.totalCostWei;
+    } catch (gasError) {
+      // If gas calculation fails, use default estimates
+      gasEstimate = BigNumber.from(200000 + 170000 * legs.length);
+      gasCostWei = gasEstimate.mul(ethers.utils.parseUnits('30', 'gwei'));
+    }
+
+    const firstLeg = legs[0];
+    const lastLeg = legs[legs.length - 1];
+
+    return {
+      tokenA: route[0],
+      tokenB: route[1],
+      amountIn,
+      buyDex: firstLeg.dex,
+      sellDex: lastLeg.dex,
+      buyPrice: this.calculatePrice(firstLeg.amountIn, firstLeg.expectedAmountOut, firstLeg.tokenIn.decimals, firstLeg.tokenOut.decimals),
+      sellPrice: this.calculatePrice(lastLeg.amountIn, lastLeg.expectedAmountOut, lastLeg.tokenIn.decimals, lastLeg.tokenOut.decimals),
+      profit,
+      profitPercent,
+      gasEstimate,
+      netProfit: profit.sub(gasCostWei).sub(flashLoan.feeWei),
+      buyFee: firstLeg.fee,
+      sellFee: lastLeg.fee,
+      blockNumber: Array.from(quoteBlocks)[0],
+      flashLoanProvider: flashLoan.quote.provider,
+      flashLoanFee: flashLoan.quote.fee,
+      legs
+    };
+  }
+
+  // Cheapest flash loan of amountIn with its fee in MATIC wei, or null when no provider can lend it
+  private async getFlashLoanCost(
+    token: TokenInfo,
+    amountIn: BigNumber
+  ): Promise<{ quote: FlashLoanQuote; feeWei: BigNumber } | null> {
+    const quote = await this.flashLoanSelector.select(token, amountIn);
+    if (!quote) {
+      console.warn(`No flash loan provider can lend ${ethers.utils.formatUnits(amountIn, token.decimals)} ${token.symbol}`);
+      return null;
+    }
+
+    const feeWei = quote.fee.isZero() ? BigNumber.from(0) : await this.convertToNativeWei(token, quote.fee);
+    return { quote, feeWei };
+  }
+
+  private async convertToNativeWei(token: TokenInfo, amount: BigNumber): Promise<BigNumber> {
+    if (token.address.toLowerCase() === TOKENS.WMATIC.address.toLowerCase()) {
+      return amount;
+    }
+
+    const quotes = await this.batchQuoteEngine.getBatchQuotes(token, TOKENS.WMATIC, amount, 6000);
+    if (quotes.length === 0) {
+      throw new Error(`No ${token.symbol}/WMATIC quote available to value profit`);
+    }
+
+    return quotes[0].amountOut;
+  }
+
+  // Token amount in MATIC at the oracle's prices, the unit every TradeResult is recorded in
+  private async toMatic(token: TokenInfo, amount: BigNumber): Promise<number> {
+    const tokenAmount = parseFloat(ethers.utils.formatUnits(amount, token.decimals));
+    if (token.address.toLowerCase() === TOKENS.WMATIC.address.toLowerCase()) {
+      return tokenAmount;
+    }
+
+    const [tokenPriceUSD, maticPriceUSD] = await Promise.all([
+      this.priceOracle.getPriceUSD(token),
+      this.priceOracle.getPriceUSD(TOKENS.WMATIC)
+    ]);
+
+    return tokenAmount * tokenPriceUSD / maticPriceUSD;
+  }
+
+  private async optimizeTradeSize(opportunity: ArbitrageOpportunity): Promise<ArbitrageOpportunity> {
+    try {
+      const maxAmount = await this.getMaxTradeAmount(opportunity.tokenA, !this.isBalancerRoute(opportunity));
+      const route = this.getRouteLegs(opportunity);
+
+      // Gas does not depend on size, so the round-trip maximum is also the net maximum
+      const sizing = await this.tradeSizeOptimizer.optimize(
+        amountIn => this.quoteRoundTrip(route, amountIn),
+        maxAmount
+      );
+
+      if (!sizing || sizing.profit.lte(0)) {
+        return opportunity;
+      }
+
+      const resized = isMultiLegOpportunity(opportunity)
+        ? await this.analyzeCyclicRoute(opportunity.legs.map(leg => leg.tokenIn), sizing.amountIn)
+        : await this.analyzeTokenPair(opportunity.tokenA, opportunity.tokenB, sizing.amountIn);
+
+      if (!resized || resized.netProfit.lte(opportunity.netProfit)) {
+        return { ...opportunity, profitCurve: sizing.profitCurve };
+      }
+
+      console.log(`Sized ${opportunity.tokenA.symbol}/${opportunity.tokenB.symbol} to ${ethers.utils.formatUnits(resized.amountIn, resized.tokenA.decimals)} ${resized.tokenA.symbol}`);
+
+      return { ...resized, profitCurve: sizing.profitCurve };
+    } catch (error: any) {
+      console.warn(`Trade sizing failed for ${opportunity.tokenA.symbol}/${opportunity.tokenB.symbol}:`, error.message || error);
+      return opportunity;
+    }
+  }
+
+  private getRouteLegs(opportunity: ArbitrageOpportunity): QuotedLeg[] {
+    if (isMultiLegOpportunity(opportunity)) {
+      return opportunity.legs;
+    }
+
+    return [
+      { dex: opportunity.buyDex, tokenIn: opportunity.tokenA, tokenOut: opportunity.tokenB, fee: opportunity.buyFee, poolId: opportunity.buyPoolId },
+      { dex: opportunity.sellDex, tokenIn: opportunity.tokenB, tokenOut: opportunity.tokenA, fee: opportunity.sellFee, poolId: opportunity.sellPoolId }
+    ];
+  }
+
+  private async quoteRoundTrip(route: QuotedLeg[], amountIn: BigNumber): Promise<BigNumber | null> {
+    let amount = amountIn;
+    const quoteBlocks: Set<number | undefined> = new Set();
+
+    try {
+      // Pin each leg to the venue the opportunity was found on
+      for (const leg of route) {
+        const exchange = this.batchQuoteEngine.getExchange(leg.dex);
+        if (!exchange) {
+          return null;
+        }
+
+        const quote = await this.quoteLeg(exchange, leg, amount);
+        quoteBlocks.add(quote.blockNumber);
+        amount = quote.amountOut;
+      }
+    } catch (error) {
+      return null;
+    }
+
+    // A round trip spanning two blocks is not a real profit
+    if (quoteBlocks.size > 1) {
+      return null;
+    }
+
+    return amount.sub(amountIn);
+  }
+
+  // Re-prices a leg on the pool it was found on rather than the venue's best pool for the amount
+  private async quoteLeg(exchange: BaseExchange, leg: QuotedLeg, amountIn: BigNumber): Promise<QuoteResult> {
+    if (leg.poolId && exchange instanceof BalancerExchange) {
+      return exchange.getPoolQuote(leg.poolId, leg.tokenIn, leg.tokenOut, amountIn);
+    }
+
+    if (leg.fee !== undefined && exchange instanceof UniswapV3Exchange) {
+      return exchange.getFeeTierQuote(leg.fee, leg.tokenIn, leg.tokenOut, amountIn, 6000);
+    }
+
+    return exchange.getQuote(leg.tokenIn, leg.tokenOut, amountIn, 6000);
+  }
+
+  // Balancer-only routes borrow nothing, so only flash-loan-funded trades are capped by lendable liquidity
+  private async getMaxTradeAmount(token: TokenInfo, borrows: boolean): Promise<BigNumber> {
+    const configuredMax = await this.tradeSizer.toTokenAmount(token, this.config.maxTradeAmountUSD);
+    if (!borrows) {
+      return configuredMax;
+    }
+
+    const flashLoanLiquidity = await this.flashLoanSelector.getMaxLiquidity(token);
+    return configuredMax.lt(flashLoanLiquidity) ? configuredMax : flashLoanLiquidity;
+  }
+
   private generateTokenPairs(): Array<{ tokenA: TokenInfo; tokenB: TokenInfo }> {
     const tokens = Object.values(TOKENS);
     const pairs: Array<{ tokenA: TokenInfo; tokenB: TokenInfo }> = [];
@@ -369,7 +1043,12 @@ export class ArbitrageEngine extends EventEmitter {
 
       // Tier 3 - Medium liquidity additions
       ['WBTC', 'WETH'],   // BTC/ETH pair
-      ['WMATIC', 'USDT']  // MATIC/USDT pair
+      ['WMATIC', 'USDT'], // MATIC/USDT pair
+
+      // Curve aave pool coins, which trade against bridged USDC rather than native
+      ['USDC.e', 'USDT'],
+      ['DAI', 'USDC.e'],
+      ['DAI', 'USDT']
     ];
 
     for (const [symbolA, symbolB] of priorityPairs) {
@@ -388,13 +1067,59 @@ export class ArbitrageEngine extends EventEmitter {
     return pairs;
   }
 
-  private generateTradeAmounts(): BigNumber[] {
-    // Use smaller, more realistic trade sizes to reduce slippage
-    const baseAmounts = [1000, 5000]; // USD values - reduced for stability
+  private getRoutePairKeys(route: TokenInfo[]): string[] {
+    return route.map((token, i) => getPairKey(token, route[(i + 1) % route.length]));
+  }
 
-    return baseAmounts.map(amount =>
-      ethers.utils.parseUnits(amount.toString(), 6) // Assuming USDC (6 decimals)
-    );
+  // Every pair a scan can touch, so the tracker follows all pools the scanner quotes
+  private getTrackedPairs(): Array<{ tokenA: TokenInfo; tokenB: TokenInfo }> {
+    if (this.config.enableGraphSearch) {
+      const tokens = Object.values(TOKENS);
+      return tokens.flatMap((tokenA, i) => tokens.slice(i + 1).map(tokenB => ({ tokenA, tokenB })));
+    }
+
+    const pairs: Map<string, { tokenA: TokenInfo; tokenB: TokenInfo }> = new Map();
+
+    this.generateTokenPairs().forEach(pair => pairs.set(getPairKey(pair.tokenA, pair.tokenB), pair));
+
+    if (this.config.enableTriangular) {
+      this.generateTriangularRoutes().forEach(route => {
+        route.forEach((tokenA, i) => {
+          const tokenB = route[(i + 1) % route.length];
+          pairs.set(getPairKey(tokenA, tokenB), { tokenA, tokenB });
+        });
+      });
+    }
+
+    return Array.from(pairs.values());
+  }
+
+  private generateTriangularRoutes(): TokenInfo[][] {
+    // Liquid triangles anchored at USDC, the screening notional's unit
+    const priorityTriangles = [
+      ['USDC', 'WMATIC', 'WETH'],
+      ['USDC', 'WETH', 'WBTC'],
+      ['USDC', 'WMATIC', 'USDT'],
+      ['USDC', 'WETH', 'DAI'],
+      ['USDC', 'USDT', 'DAI']
+    ];
+
+    const routes: TokenInfo[][] = [];
+
+    for (const [anchor, first, second] of priorityTriangles) {
+      const tokens = [TOKENS[anchor], TOKENS[first], TOKENS[second]];
+
+      if (tokens.some(token => !token)) {
+        console.warn(`Token not found for triangle: ${anchor}/${first}/${second}`);
+        continue;
+      }
+
+      // Each cycle is worth checking in both directions
+      routes.push([tokens[0], tokens[1], tokens[2]]);
+      routes.push([tokens[0], tokens[2], tokens[1]]);
+    }
+
+    return routes;
   }
 
   private calculatePrice(
@@ -438,30 +1163,55 @@ export class ArbitrageEngine extends EventEmitter {
     const startTime = Date.now();
     
     try {
-      // Validate opportunity is still profitable
-      const currentOpportunity = await this.analyzeTokenPair(
-        opportunity.tokenA,
-        opportunity.tokenB,
-        opportunity.amountIn
-      );
+      // Validate opportunity is still profitable at the chain head; the scan's block is already
+      // behind the one this trade can land in
+      this.pinQuoteBlock(await this.provider.getBlockNumber());
+      const currentOpportunity = isMultiLegOpportunity(opportunity)
+        ? await this.analyzeCyclicRoute(opportunity.legs.map(leg => leg.tokenIn), opportunity.amountIn)
+        : await this.analyzeTokenPair(opportunity.tokenA, opportunity.tokenB, opportunity.amountIn);
 
       if (!currentOpportunity || !this.isOpportunityViable(currentOpportunity)) {
         throw new Error('Opportunity no longer viable');
       }
 
+      // Ask the risk manager before committing to the trade
+      if (this.riskManager) {
+        const risk = await this.riskManager.evaluateRisk(currentOpportunity);
+        if (!risk.approved) {
+          const result = this.buildFailedResult(opportunity, Date.now() - startTime);
+          this.emit('riskRejected', { opportunity: currentOpportunity, reason: risk.reason, riskScore: risk.riskScore, result });
+          return result;
+        }
+      }
+
+      // Dry-run the exact calldata before spending any gas
+      const transaction = await this.prepareArbitrageTransaction(currentOpportunity);
+      const simulation = await this.tradeSimulator.simulate(
+        transaction,
+        this.getContractFunction(currentOpportunity)
+      );
+
+      if (!simulation.success) {
+        const result = this.buildFailedResult(opportunity, Date.now() - startTime);
+        this.emit('simulationRejected', { opportunity: currentOpportunity, simulation, result });
+        return result;
+      }
+
+      if (this.config.dryRun) {
+        return await this.recordPaperTrade(currentOpportunity, transaction, simulation, startTime);
+      }
+
       // Execute the arbitrage trade
-      const txResult = await this.executeFlashLoanArbitrage(currentOpportunity);
+      const txResult = await this.sendArbitrageTransaction(currentOpportunity, transaction, simulation);
       
       const executionTime = Date.now() - startTime;
-      const profit = parseFloat(ethers.utils.formatEther(currentOpportunity.profit));
-      const netProfit = parseFloat(ethers.utils.formatEther(currentOpportunity.netProfit));
 
       const result: TradeResult = {
         successful: true,
         txHash: txResult.hash,
-        profit,
-        netProfit,
-        amount: parseFloat(ethers.utils.formatEther(opportunity.amountIn)),
+        profit: parseFloat(ethers.utils.formatEther(currentOpportunity.profit)),
+        netProfit: parseFloat(ethers.utils.formatEther(currentOpportunity.netProfit)),
+        amount: parseFloat(ethers.utils.formatUnits(opportunity.amountIn, opportunity.tokenA.decimals)),
         tokenA: opportunity.tokenA.symbol,
         tokenB: opportunity.tokenB.symbol,
         sourceDEX: opportunity.buyDex,
@@ -475,41 +1225,328 @@ export class ArbitrageEngine extends EventEmitter {
       // Wait for confirmation and update gas info
       const receipt = await txResult.wait();
       result.gasUsed = receipt.gasUsed.toNumber();
-      result.gasCost = receipt.gasUsed.mul(receipt.effectiveGasPrice).toNumber();
+      result.gasCost = parseFloat(ethers.utils.formatEther(receipt.gasUsed.mul(receipt.effectiveGasPrice)));
       result.blockNumber = receipt.blockNumber;
 
+      // Record what the contract realized rather than what the scan expected
+      const [executed] = this.getArbitrageContract().parseArbitrageExecuted(receipt);
+      if (executed) {
+        console.log(`Arbitrage ${txResult.hash} realized ${ethers.utils.formatUnits(executed.profit, opportunity.tokenA.decimals)} ${opportunity.tokenA.symbol}`);
+        // The trade has landed, so a missing price keeps the expected profit rather than failing it
+        result.profit = await this.toMatic(currentOpportunity.tokenA, executed.profit).catch(() => result.profit);
+      }
+      result.netProfit = result.profit - result.gasCost;
+
       this.emit('tradeExecuted', result);
       return result;
 
-    } catch (error) {
-      const executionTime = Date.now() - startTime;
-      
-      const result: TradeResult = {
-        successful: false,
-        profit: 0,
-        netProfit: 0,
-        amount: parseFloat(ethers.utils.formatEther(opportunity.amountIn)),
-        tokenA: opportunity.tokenA.symbol,
-        tokenB: opportunity.tokenB.symbol,
-        sourceDEX: opportunity.buyDex,
-        targetDEX: opportunity.sellDex,
-        gasUsed: 0,
-        gasCost: 0,
-        executionTime,
-        timestamp: new Date()
-      };
+    } catch (error: any) {
+      const result = this.buildFailedResult(opportunity, Date.now() - startTime);
+
+      // A transaction that reverted on-chain still cost gas
+      if (error.receipt) {
+        const receipt: ethers.providers.TransactionReceipt = error.receipt;
+        result.txHash = receipt.transactionHash;
+        result.gasUsed = receipt.gasUsed.toNumber();
+        result.gasCost = parseFloat(ethers.utils.formatEther(receipt.gasUsed.mul(receipt.effectiveGasPrice)));
+        result.netProfit = -result.gasCost;
+        result.blockNumber = receipt.blockNumber;
+      }
 
       this.emit('tradeFailed', { result, error });
       return result;
     }
   }
 
-  private async executeFlashLoanArbitrage(
+  private buildFailedResult(opportunity: ArbitrageOpportunity, executionTime: number): TradeResult {
+    return {
+      successful: false,
+      profit: 0,
+      netProfit: 0,
+      amount: parseFloat(ethers.utils.formatUnits(opportunity.amountIn, opportunity.tokenA.decimals)),
+      tokenA: opportunity.tokenA.symbol,
+      tokenB: opportunity.tokenB.symbol,
+      sourceDEX: opportunity.buyDex,
+      targetDEX: opportunity.sellDex,
+      gasUsed: 0,
+      gasCost: 0,
+      executionTime,
+      timestamp: new Date(),
+      simulated: this.config.dryRun || undefined
+    };
+  }
+
+  private async recordPaperTrade(
+    opportunity: ArbitrageOpportunity,
+    transaction: ethers.PopulatedTransaction,
+    simulation: SimulationResult,
+    startTime: number
+  ): Promise<TradeResult> {
+    const pendingNonce = await this.wallet!.getTransactionCount('pending');
+    const protectedTransaction = await this.buildProtectedTransaction(transaction, simulation, pendingNonce);
+
+    // Run MEV protection for its gas pricing, but never reserve a nonce or broadcast
+    const gasPrice = this.mevProtection
+      ? BigNumber.from((await this.mevProtection.previewProtectedTransaction(protectedTransaction)).gasPrice)
+      : protectedTransaction.gasPrice;
+
+    // Same units as a live trade: the simulated profit in MATIC, net of the simulated gas
+    const profit = await this.toMatic(opportunity.tokenA, simulation.simulatedProfit);
+    const gasCost = parseFloat(ethers.utils.formatEther(simulation.gasUsed.mul(gasPrice)));
+
+    const result: TradeResult = {
+      successful: true,
+      profit,
+      netProfit: profit - gasCost,
+      amount: parseFloat(ethers.utils.formatUnits(opportunity.amountIn, opportunity.tokenA.decimals)),
+      tokenA: opportunity.tokenA.symbol,
+      tokenB: opportunity.tokenB.symbol,
+      sourceDEX: opportunity.buyDex,
+      targetDEX: opportunity.sellDex,
+      gasUsed: simulation.gasUsed.toNumber(),
+      gasCost,
+      executionTime: Date.now() - startTime,
+      blockNumber: simulation.blockNumber,
+      timestamp: new Date(),
+      simulated: true
+    };
+
+    console.log(`[DRY RUN] Paper trade ${result.tokenA}/${result.tokenB} via ${result.sourceDEX} -> ${result.targetDEX}: simulated profit ${ethers.utils.formatUnits(simulation.simulatedProfit, opportunity.tokenA.decimals)} ${result.tokenA} (${result.profit.toFixed(4)} MATIC)`);
+
+    this.emit('tradeExecuted', result);
+    return result;
+  }
+
+  private async prepareArbitrageTransaction(
     opportunity: ArbitrageOpportunity
-  ): Promise<ethers.ContractTransaction> {
-    // This would integrate with the smart contract
-    // For now, returning a mock transaction
-    throw new Error('Flash loan execution not implemented - requires deployed contract');
+  ): Promise<ethers.PopulatedTransaction> {
+    const contract = this.getArbitrageContract();
+
+    if (this.isBalancerRoute(opportunity)) {
+      const transaction = await contract.populateExecuteBalancerArbitrage(
+        opportunity.tokenA.address,
+        opportunity.tokenB.address,
+        opportunity.amountIn,
+        await this.getMinProfit(opportunity),
+        opportunity.buyPoolId!,
+        opportunity.sellPoolId!
+      );
+      transaction.from = this.wallet!.address;
+
+      return transaction;
+    }
+
+    const params = await this.buildArbitrageParams(opportunity);
+
+    const transaction = opportunity.flashLoanProvider === 'aave'
+      ? await contract.populateExecuteAaveArbitrage(params)
+      : await contract.populateExecuteArbitrage([opportunity.tokenA.address], [opportunity.amountIn], params);
+    transaction.from = this.wallet!.address;
+
+    return transaction;
+  }
+
+  // Contract entry point prepareArbitrageTransaction encodes for the opportunity
+  private getContractFunction(opportunity: ArbitrageOpportunity): string {
+    if (this.isBalancerRoute(opportunity)) {
+      return 'executeBalancerArbitrage';
+    }
+    return opportunity.flashLoanProvider === 'aave' ? 'executeAaveArbitrage' : 'executeArbitrage';
+  }
+
+  private isBalancerDex(dex: string): boolean {
+    return EXCHANGES[dex]?.type === 'balancer';
+  }
+
+  // Both legs on Balancer pools settle in one Vault batchSwap rather than a flash loan
+  private isBalancerRoute(opportunity: ArbitrageOpportunity): boolean {
+    return !isMultiLegOpportunity(opportunity) &&
+      [opportunity.buyDex, opportunity.sellDex].every(dex => this.isBalancerDex(dex)) &&
+      !!opportunity.buyPoolId &&
+      !!opportunity.sellPoolId;
+  }
+
+  private async sendArbitrageTransaction(
+    opportunity: ArbitrageOpportunity,
+    transaction: ethers.PopulatedTransaction,
+    simulation: SimulationResult
+  ): Promise<ethers.providers.TransactionResponse> {
+    try {
+      const nonce = await this.reserveNonce();
+      const protectedTransaction = await this.buildProtectedTransaction(transaction, simulation, nonce);
+
+      console.log(`Submitting flash loan arbitrage ${opportunity.tokenA.symbol}/${opportunity.tokenB.symbol} via ${opportunity.buyDex} -> ${opportunity.sellDex} (simulated profit ${simulation.simulatedProfit.toString()}, nonce ${nonce})`);
+
+      if (this.mevProtection) {
+        return await this.mevProtection.submitProtectedTransaction(protectedTransaction);
+      }
+
+      return await this.wallet!.sendTransaction({
+        to: protectedTransaction.to,
+        data: protectedTransaction.data,
+        gasLimit: protectedTransaction.gasLimit,
+        gasPrice: protectedTransaction.gasPrice,
+        nonce: protectedTransaction.nonce
+      });
+    } catch (error) {
+      // The reserved nonce may never have reached the mempool; re-read the pending count for the next trade
+      this.nextNonce = undefined;
+      throw error;
+    }
+  }
+
+  // Parallel trades take nonces one at a time from a single counter, so no two read the same pending count
+  private reserveNonce(): Promise<number> {
+    const reservation = this.nonceReservation.then(async () => {
+      if (this.nextNonce === undefined) {
+        this.nextNonce = await this.wallet!.getTransactionCount('pending');
+      }
+      return this.nextNonce++;
+    });
+    this.nonceReservation = reservation.catch(() => undefined);
+    return reservation;
+  }
+
+  private async buildProtectedTransaction(
+    transaction: ethers.PopulatedTransaction,
+    simulation: SimulationResult,
+    nonce: number
+  ): Promise<ProtectedTransaction> {
+    const gasPrice = await this.gasManager.getOptimalGasPrice('high');
+
+    return {
+      to: transaction.to!,
+      data: transaction.data!,
+      value: BigNumber.from(0),
+      gasLimit: simulation.gasUsed.mul(120).div(100), // 20% buffer
+      gasPrice,
+      nonce,
+      deadline: Math.floor(Date.now() / 1000) + 300
+    };
+  }
+
+  async buildArbitrageParams(opportunity: ArbitrageOpportunity): Promise<ArbitrageParams> {
+    const legs = this.getExecutionLegs(opportunity);
+
+    // Balancer swaps cannot run inside a Vault flash loan: the Vault is locked until the loan is repaid
+    if (legs.some(leg => EXCHANGES[leg.dex]?.type === 'balancer')) {
+      throw new Error(`Balancer legs need a Balancer counter-leg; ${legs.map(leg => leg.dex).join(' -> ')} cannot use the Vault flash loan`);
+    }
+
+    const steps = legs.map(leg => this.buildSwapStep(leg));
+    const minProfit = await this.getMinProfit(opportunity);
+
+    return {
+      tokenA: opportunity.tokenA.address,
+      amount: opportunity.amountIn,
+      minProfit,
+      steps
+    };
+  }
+
+  // Every leg with the output it was quoted at, in execution order
+  private getExecutionLegs(opportunity: ArbitrageOpportunity): RouteLeg[] {
+    if (isMultiLegOpportunity(opportunity)) {
+      return opportunity.legs;
+    }
+
+    if (!opportunity.buyAmountOut || !opportunity.sellAmountOut) {
+      throw new Error(`Opportunity ${opportunity.tokenA.symbol}/${opportunity.tokenB.symbol} has no leg outputs to bound slippage`);
+    }
+
+    return [
+      {
+        dex: opportunity.buyDex,
+        tokenIn: opportunity.tokenA,
+        tokenOut: opportunity.tokenB,
+        amountIn: opportunity.amountIn,
+        expectedAmountOut: opportunity.buyAmountOut,
+        fee: opportunity.buyFee
+      },
+      {
+        dex: opportunity.sellDex,
+        tokenIn: opportunity.tokenB,
+        tokenOut: opportunity.tokenA,
+        amountIn: opportunity.buyAmountOut,
+        expectedAmountOut: opportunity.sellAmountOut,
+        fee: opportunity.sellFee
+      }
+    ];
+  }
+
+  private buildSwapStep(leg: RouteLeg): SwapStep {
+    const exchange = EXCHANGES[leg.dex];
+    if (!exchange) {
+      throw new Error(`Unsupported exchange for contract execution: ${leg.dex}`);
+    }
+
+    // Each step may return at most the configured slippage below its quote
+    const slippageBasisPoints = Math.floor(this.config.maxSlippagePercent * 100);
+
+    return {
+      dex: CONTRACT_EXCHANGE_IDS_BY_DEX[leg.dex] ?? CONTRACT_EXCHANGE_IDS[exchange.type],
+      target: exchange.router,
+      tokenIn: leg.tokenIn.address,
+      tokenOut: leg.tokenOut.address,
+      fee: exchange.type === 'uniswap-v3' ? leg.fee ?? 3000 : 0,
+      minOut: leg.expectedAmountOut.mul(10000 - slippageBasisPoints).div(10000)
+    };
+  }
+
+  // Expected profit in tokenA after the flash loan fee, reduced by the configured safety buffer
+  private async getMinProfit(opportunity: ArbitrageOpportunity): Promise<BigNumber> {
+    const profitBasisPoints = Math.floor(opportunity.profitPercent * 100);
+    const expectedProfit = opportunity.amountIn.mul(profitBasisPoints).div(10000).sub(opportunity.flashLoanFee ?? 0);
+    const minProfit = expectedProfit.mul(100 - this.config.profitBufferPercent).div(100);
+
+    const contractMinProfit = await this.getArbitrageContract().getMinProfitThreshold();
+    if (minProfit.lt(contractMinProfit)) {
+      throw new Error(`Expected profit ${minProfit.toString()} is below contract minimum ${contractMinProfit.toString()}`);
+    }
+
+    return minProfit;
+  }
+
+  private getArbitrageContract(): FlashArbitrageBotClient {
+    if (this.arbitrageContract) {
+      return this.arbitrageContract;
+    }
+
+    if (!this.wallet) {
+      throw new Error('Flash loan execution requires a configured wallet');
+    }
+
+    const contractAddress = this.config.contractAddress;
+    if (!contractAddress || !ethers.utils.isAddress(contractAddress)) {
+      throw new Error('Flash loan execution requires a valid CONTRACT_ADDRESS');
+    }
+
+    this.arbitrageContract = new FlashArbitrageBotClient(contractAddress, this.wallet);
+    return this.arbitrageContract;
+  }
+
+  setRiskManager(riskManager: RiskManager): void {
+    this.riskManager = riskManager;
+  }
+
+  setMEVProtection(mevProtection: MEVProtection): void {
+    this.mevProtection = mevProtection;
+  }
+
+  setBlockProvider(blockProvider: ethers.providers.WebSocketProvider): void {
+    this.blockProvider = blockProvider;
+  }
+
+  getPriceOracle(): PriceOracle {
+    return this.priceOracle;
+  }
+
+  getFlashLoanSelector(): FlashLoanSelector {
+    return this.flashLoanSelector;
+  }
+
+  isDryRun(): boolean {
+    return Boolean(this.config.dryRun);
   }
 
   getOpportunityHistory(tokenPair?: string): ArbitrageOpportunity[] {
@@ -531,20 +1568,44 @@ export class ArbitrageEngine extends EventEmitter {
     averageOpportunitiesPerScan: number;
     lastScanTimestamp: number;
     isRunning: boolean;
+    dryRun: boolean;
+    blockSource: 'websocket' | 'polling' | 'interval';
+    latestBlockNumber: number;
+    lastScannedBlock: number;
+    blocksSkipped: number;
+    overlappingScansSkipped: number;
+    unchangedBlocksSkipped: number;
+    mixedBalancerPairsSkipped: number;
+    poolState?: ReturnType<PoolStateTracker['getStats']>;
+    quoteBatching: ReturnType<BatchQuoteEngine['getMulticallStats']>;
   } {
     const totalOpportunities = Array.from(this.opportunityHistory.values())
       .reduce((sum, opportunities) => sum + opportunities.length, 0);
     
     return {
-      totalScans: this.lastScanTimestamp > 0 ? 1 : 0, // Simplified
+      totalScans: this.scanMetrics.totalScans,
       totalOpportunities,
-      averageOpportunitiesPerScan: totalOpportunities > 0 ? totalOpportunities : 0,
+      averageOpportunitiesPerScan: this.scanMetrics.totalScans > 0 ? totalOpportunities / this.scanMetrics.totalScans : 0,
       lastScanTimestamp: this.lastScanTimestamp,
-      isRunning: this.isRunning
+      isRunning: this.isRunning,
+      dryRun: this.isDryRun(),
+      blockSource: this.blockSource,
+      latestBlockNumber: this.latestBlockNumber,
+      lastScannedBlock: this.lastScannedBlock,
+      blocksSkipped: this.scanMetrics.blocksSkipped,
+      overlappingScansSkipped: this.scanMetrics.overlappingScansSkipped,
+      unchangedBlocksSkipped: this.scanMetrics.unchangedBlocksSkipped,
+      mixedBalancerPairsSkipped: this.scanMetrics.mixedBalancerPairsSkipped,
+      poolState: this.poolStateTracker?.getStats(),
+      quoteBatching: this.batchQuoteEngine.getMulticallStats()
     };
   }
 
   updateConfig(newConfig: Partial<ArbitrageConfig>): void {
+    if (newConfig.contractAddress !== undefined && newConfig.contractAddress !== this.config.contractAddress) {
+      this.arbitrageContract = undefined;
+    }
+
     this.config = { ...this.config, ...newConfig };
     this.emit('configUpdated', this.config);
   }
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { BigNumber, ethers } from 'ethers';
+import { ArbitrageGraph } from './ArbitrageGraph';
+import { BatchQuoteEngine } from './BatchQuoteEngine';
+import { QuoteResult, TokenInfo, TOKENS } from '../types';
+
+const { USDC, WETH, WMATIC } = TOKENS;
+const PRICES: Record<string, number> = { USDC: 1, WETH: 2000, WMATIC: 0.5 };
+
+// WETH is 1% rich against WMATIC on SushiSwap, with a wide enough spread that only the triangle pays
+const TRIANGLE = { 'WETH>WMATIC': { sushiswap: 0.01 }, 'WMATIC>WETH': { sushiswap: -0.015 } };
+
+// Quotes every pair at its fair price, with the given per-venue premiums, best first
+function mockQuoteEngine(premiums: Record<string, Record<string, number>> = {}): BatchQuoteEngine {
+  return {
+    getBatchQuotes: async (from: TokenInfo, to: TokenInfo, amountIn: BigNumber): Promise<QuoteResult[]> => {
+      const venues = premiums[`${from.symbol}>${to.symbol}`] || { quickswap: 0 };
+      const input = parseFloat(ethers.utils.formatUnits(amountIn, from.decimals));
+
+      return Object.entries(venues)
+        .map(([dex, premium]) => {
+          const output = input * PRICES[from.symbol] / PRICES[to.symbol] * (1 + premium);
+          return {
+            dex,
+            amountIn,
+            amountOut: ethers.utils.parseUnits(output.toFixed(to.decimals), to.decimals),
+            gasEstimate: BigNumber.from(150000),
+            priceImpact: 0
+          };
+        })
+        .sort((a, b) => (b.amountOut.gt(a.amountOut) ? 1 : -1));
+    }
+  } as unknown as BatchQuoteEngine;
+}
+
+async function buildGraph(quoteEngine: BatchQuoteEngine, excludedDexes: string[] = []): Promise<ArbitrageGraph> {
+  const graph = new ArbitrageGraph(quoteEngine, [USDC, WETH, WMATIC], USDC, excludedDexes);
+  await graph.build(ethers.utils.parseUnits('1000', USDC.decimals));
+  return graph;
+}
+
+describe('ArbitrageGraph', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('sizes every token at the anchor notional', async () => {
+    const graph = await buildGraph(mockQuoteEngine());
+    expect(ethers.utils.formatUnits(graph.getProbeAmount(WETH)!, WETH.decimals)).toBe('0.5');
+    expect(ethers.utils.formatUnits(graph.getProbeAmount(WMATIC)!, WMATIC.decimals)).toBe('2000.0');
+  });
+
+  it('finds no cycle when every pair trades at its fair price', async () => {
+    const graph = await buildGraph(mockQuoteEngine());
+    expect(graph.findProfitableCycles(3)).toEqual([]);
+  });
+
+  it('finds a mispriced triangle once, starting at the anchor', async () => {
+    const graph = await buildGraph(mockQuoteEngine(TRIANGLE));
+    const cycles = graph.findProfitableCycles(3);
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].tokens.map(token => token.symbol)).toEqual(['USDC', 'WETH', 'WMATIC']);
+    expect(cycles[0].edges.map(edge => edge.dex)).toEqual(['quickswap', 'sushiswap', 'quickswap']);
+    expect(cycles[0].rateProduct).toBeCloseTo(1.01, 6);
+  });
+
+  it('respects the maximum cycle length', async () => {
+    const graph = await buildGraph(mockQuoteEngine(TRIANGLE));
+    expect(graph.findProfitableCycles(2)).toEqual([]);
+  });
+
+  it('routes edges around excluded venues', async () => {
+    const premiums = { 'WETH>WMATIC': { balancer: 0.01, quickswap: 0 }, 'WMATIC>WETH': { quickswap: -0.015 } };
+    const graph = await buildGraph(mockQuoteEngine(premiums), ['balancer']);
+
+    expect(graph.findProfitableCycles(3)).toEqual([]);
+    expect(graph.getStats().edges).toBe(6);
+  });
+});
@@ -0,0 +1,225 @@
+import { ethers, BigNumber } from 'ethers';
+import { BatchQuoteEngine } from './BatchQuoteEngine';
+import { TokenInfo, TOKENS } from '../types';
+
+export interface GraphEdge {
+  from: TokenInfo;
+  to: TokenInfo;
+  dex: string;
+  fee?: number;
+  rate: number; // Decimal-adjusted output per unit of input at the probe size
+  weight: number; // -ln(rate), so a negative cycle is a profitable loop
+}
+
+export interface ArbitrageCycle {
+  tokens: TokenInfo[]; // Start token first, not repeated at the end
+  edges: GraphEdge[];
+  rateProduct: number; // Gross return of one loop before gas, > 1 is profitable
+}
+
+interface PathEntry {
+  weight: number;
+  edges: GraphEdge[];
+}
+
+// Ignore cycles whose gain is within floating point noise of break-even
+const MIN_CYCLE_GAIN = 1e-6;
+
+export class ArbitrageGraph {
+  private batchQuoteEngine: BatchQuoteEngine;
+  private tokens: TokenInfo[];
+  private anchorToken: TokenInfo;
+  private excludedDexes: string[]; // Venues a cycle's swaps cannot be routed through
+  private edges: Map<string, GraphEdge[]> = new Map();
+  private probeAmounts: Map<string, BigNumber> = new Map();
+  private lastBuildTimestamp: number = 0;
+
+  constructor(
+    batchQuoteEngine: BatchQuoteEngine,
+    tokens: TokenInfo[] = Object.values(TOKENS),
+    anchorToken: TokenInfo = TOKENS.USDC,
+    excludedDexes: string[] = []
+  ) {
+    this.batchQuoteEngine = batchQuoteEngine;
+    this.tokens = tokens;
+    this.anchorToken = anchorToken;
+    this.excludedDexes = excludedDexes;
+  }
+
+  async build(anchorAmount: BigNumber, maxConcurrency: number = 3): Promise<void> {
+    const startTime = Date.now();
+
+    await this.updateProbeAmounts(anchorAmount);
+
+    const nodes = this.tokens.filter(token => this.probeAmounts.has(this.getKey(token)));
+    const directedPairs: Array<{ from: TokenInfo; to: TokenInfo }> = [];
+    for (const from of nodes) {
+      for (const to of nodes) {
+        if (from !== to) {
+          directedPairs.push({ from, to });
+        }
+      }
+    }
+
+    const edges: Map<string, GraphEdge[]> = new Map();
+
+    for (let i = 0; i < directedPairs.length; i += maxConcurrency) {
+      const batch = directedPairs.slice(i, i + maxConcurrency);
+
+      const batchEdges = await Promise.all(batch.map(({ from, to }) => this.quoteEdge(from, to)));
+
+      for (const edge of batchEdges) {
+        if (!edge) {
+          continue;
+        }
+
+        const fromKey = this.getKey(edge.from);
+        if (!edges.has(fromKey)) {
+          edges.set(fromKey, []);
+        }
+        edges.get(fromKey)!.push(edge);
+      }
+    }
+
+    this.edges = edges;
+    this.lastBuildTimestamp = Date.now();
+
+    const edgeCount = Array.from(edges.values()).reduce((sum, list) => sum + list.length, 0);
+    console.log(`Built arbitrage graph with ${nodes.length} tokens and ${edgeCount} edges in ${Date.now() - startTime}ms`);
+  }
+
+  findProfitableCycles(maxLength: number = 4): ArbitrageCycle[] {
+    const cycles: Map<string, ArbitrageCycle> = new Map();
+
+    // Bellman-Ford relaxation layered by edge count, run from every token. Each layer keeps
+    // the lightest simple path per token, which bounds cycle length without exploring every path.
+    for (const sourceKey of this.edges.keys()) {
+      let layer: Map<string, PathEntry> = new Map([[sourceKey, { weight: 0, edges: [] }]]);
+
+      for (let length = 1; length <= maxLength && layer.size > 0; length++) {
+        const nextLayer: Map<string, PathEntry> = new Map();
+
+        layer.forEach((entry, nodeKey) => {
+          for (const edge of this.edges.get(nodeKey) || []) {
+            const toKey = this.getKey(edge.to);
+            const weight = entry.weight + edge.weight;
+
+            if (toKey === sourceKey) {
+              if (weight < -MIN_CYCLE_GAIN) {
+                this.recordCycle(cycles, [...entry.edges, edge], weight);
+              }
+              continue;
+            }
+
+            // Only simple cycles: intermediate tokens may not repeat
+            if (entry.edges.some(pathEdge => this.getKey(pathEdge.from) === toKey)) {
+              continue;
+            }
+
+            const current = nextLayer.get(toKey);
+            if (!current || weight < current.weight) {
+              nextLayer.set(toKey, { weight, edges: [...entry.edges, edge] });
+            }
+          }
+        });
+
+        layer = nextLayer;
+      }
+    }
+
+    return Array.from(cycles.values()).sort((a, b) => b.rateProduct - a.rateProduct);
+  }
+
+  getProbeAmount(token: TokenInfo): BigNumber | undefined {
+    return this.probeAmounts.get(this.getKey(token));
+  }
+
+  getStats(): {
+    tokens: number;
+    edges: number;
+    lastBuildTimestamp: number;
+  } {
+    return {
+      tokens: this.edges.size,
+      edges: Array.from(this.edges.values()).reduce((sum, list) => sum + list.length, 0),
+      lastBuildTimestamp: this.lastBuildTimestamp
+    };
+  }
+
+  private async updateProbeAmounts(anchorAmount: BigNumber): Promise<void> {
+    const probeAmounts: Map<string, BigNumber> = new Map([[this.getKey(this.anchorToken), anchorAmount]]);
+
+    // Size every edge at the same notional by pricing each token against the anchor
+    const others = this.tokens.filter(token => token !== this.anchorToken);
+    const quotes = await Promise.all(
+      others.map(token => this.batchQuoteEngine.getBatchQuotes(this.anchorToken, token, anchorAmount, 8000))
+    );
+
+    others.forEach((token, index) => {
+      if (quotes[index].length > 0) {
+        probeAmounts.set(this.getKey(token), quotes[index][0].amountOut);
+      } else {
+        console.warn(`No ${this.anchorToken.symbol}/${token.symbol} quote, leaving ${token.symbol} out of the graph`);
+      }
+    });
+
+    this.probeAmounts = probeAmounts;
+  }
+
+  private async quoteEdge(from: TokenInfo, to: TokenInfo): Promise<GraphEdge | null> {
+    const amountIn = this.probeAmounts.get(this.getKey(from))!;
+
+    try {
+      const quotes = await this.batchQuoteEngine.getBatchQuotes(from, to, amountIn, 8000);
+
+      // Parallel venues collapse to the best one, the only edge a shortest path would use
+      const bestQuote = quotes.find(quote => !this.excludedDexes.includes(quote.dex));
+      if (!bestQuote) {
+        return null;
+      }
+      const rate = parseFloat(ethers.utils.formatUnits(bestQuote.amountOut, to.decimals)) /
+        parseFloat(ethers.utils.formatUnits(amountIn, from.decimals));
+
+      if (!(rate > 0)) {
+        return null;
+      }
+
+      return {
+        from,
+        to,
+        dex: bestQuote.dex,
+        fee: bestQuote.fee,
+        rate,
+        weight: -Math.log(rate)
+      };
+    } catch (error: any) {
+      console.warn(`Failed to quote graph edge ${from.symbol}->${to.symbol}:`, error.message || error);
+      return null;
+    }
+  }
+
+  private recordCycle(cycles: Map<string, ArbitrageCycle>, edges: GraphEdge[], weight: number): void {
+    const tokens = edges.map(edge => edge.from);
+    const keys = tokens.map(token => this.getKey(token));
+
+    // The same loop is found from each of its tokens; key it by its lowest rotation
+    const startIndex = keys.indexOf([...keys].sort()[0]);
+    const cycleKey = [...keys.slice(startIndex), ...keys.slice(0, startIndex)].join('>');
+
+    const existing = cycles.get(cycleKey);
+    const startsAtAnchor = tokens[0] === this.anchorToken;
+    if (existing && (existing.tokens[0] === this.anchorToken || !startsAtAnchor)) {
+      return;
+    }
+
+    cycles.set(cycleKey, {
+      tokens,
+      edges,
+      rateProduct: Math.exp(-weight)
+    });
+  }
+
+  private getKey(token: TokenInfo): string {
+    return token.address.toLowerCase();
+  }
+}
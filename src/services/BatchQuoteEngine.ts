@@ -1,8 +1,8 @@
 import { ethers, BigNumber } from 'ethers';
-import { QuoteResult, TokenInfo, EXCHANGES } from '../types';
-import { UniswapV3Exchange } from '../exchanges/UniswapV3Exchange';
-import { QuickSwapExchange } from '../exchanges/QuickSwapExchange';
+import { QuoteResult, TokenInfo, ExchangeConfig, ExchangeType, EXCHANGES } from '../types';
 import { BaseExchange } from '../exchanges/BaseExchange';
+import { ExchangeRegistry } from '../exchanges/ExchangeRegistry';
+import { UniswapV3Exchange } from '../exchanges/UniswapV3Exchange';
 
 interface MultiCallResult {
   success: boolean;
@@ -13,71 +13,147 @@ const MULTICALL_ABI = [
   'function tryAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) public view returns (tuple(bool success, bytes returnData)[] returnData)'
 ];
 
+// Calls per tryAggregate; keeps each eth_call well inside node gas caps even when quotes cross many ticks
+const MULTICALL_CHUNK_SIZE = 50;
+
+// How long quote requests are collected before they are sent as one batch
+const QUOTE_BATCH_WINDOW_MS = 10;
+
+// Exchange types batched through multicall: only Algebra quoters, which return the pool's dynamic
+// fee with the output. Uniswap V2 forks and Uniswap V3 are quoted by their adapters from pool state
+// loaded once per block, which costs no RPC call per amount and agrees with what executeSwap sees.
+const MULTICALL_EXCHANGE_TYPES: ExchangeType[] = ['algebra'];
+
+export interface QuoteRequest {
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+  amountIn: BigNumber;
+}
+
+interface PendingQuoteRequest extends QuoteRequest {
+  resolve: (quotes: QuoteResult[]) => void;
+}
+
+interface MulticallMapping {
+  requestIndex: number;
+  exchangeName: string;
+}
+
 export class BatchQuoteEngine {
   private provider: ethers.providers.Provider;
   private exchanges: Map<string, BaseExchange>;
-  private multicallAddress: string = '0x1F98415757620B543A52E61c46B32eB19261F984';
+  private exchangeConfigs: Record<string, ExchangeConfig>;
+  private multicallAddress: string = '0xcA11bde05977b3631167028862bE2a173976CA11'; // Multicall3
   private multicallContract: ethers.Contract;
-
-  constructor(provider: ethers.providers.Provider) {
+  private useMulticall: boolean;
+  private blockNumber?: number;
+  private pendingRequests: PendingQuoteRequest[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private multicallStats = {
+    batches: 0,
+    requests: 0,
+    calls: 0,
+    failedCalls: 0,
+    failedChunks: 0
+  };
+
+  constructor(
+    provider: ethers.providers.Provider,
+    useMulticall: boolean = true,
+    exchangeConfigs: Record<string, ExchangeConfig> = EXCHANGES,
+    registry: ExchangeRegistry = new ExchangeRegistry()
+  ) {
     this.provider = provider;
-    this.exchanges = new Map();
+    this.useMulticall = useMulticall;
+    this.exchangeConfigs = exchangeConfigs;
     this.multicallContract = new ethers.Contract(
       this.multicallAddress,
       MULTICALL_ABI,
       provider
     );
-    this.initializeExchanges();
+
+    console.log('Initializing exchanges...');
+    this.exchanges = registry.createAll(provider, exchangeConfigs);
+    console.log(`Total exchanges initialized: ${this.exchanges.size}`);
   }
 
-  private initializeExchanges(): void {
-    try {
-      console.log('Initializing exchanges...');
-
-      if (EXCHANGES.UNISWAP_V3?.enabled) {
-        this.exchanges.set(
-          'UNISWAP_V3',
-          new UniswapV3Exchange(
-            this.provider,
-            EXCHANGES.UNISWAP_V3.router,
-            EXCHANGES.UNISWAP_V3.quoter!
-          )
-        );
-        console.log('✅ Uniswap V3 exchange initialized');
-      }
+  // Quotes requested within the same batch window, e.g. every pair of a scan, are
+  // resolved together in a few tryAggregate calls
+  async getBatchQuotes(
+    tokenIn: TokenInfo,
+    tokenOut: TokenInfo,
+    amountIn: BigNumber,
+    timeout: number = 12000
+  ): Promise<QuoteResult[]> {
+    if (!this.useMulticall) {
+      return this.getIndividualQuotes(tokenIn, tokenOut, amountIn, timeout);
+    }
 
-      if (EXCHANGES.QUICKSWAP?.enabled) {
-        this.exchanges.set(
-          'QUICKSWAP',
-          new QuickSwapExchange(
-            this.provider,
-            EXCHANGES.QUICKSWAP.router,
-            EXCHANGES.QUICKSWAP.factory!
-          )
-        );
-        console.log('✅ QuickSwap exchange initialized');
+    const quotesPromise = new Promise<QuoteResult[]>(resolve => {
+      this.pendingRequests.push({ tokenIn, tokenOut, amountIn, resolve });
+
+      if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => this.flushPendingRequests(), QUOTE_BATCH_WINDOW_MS);
       }
+    });
+
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      return await Promise.race([
+        quotesPromise,
+        new Promise<QuoteResult[]>(resolve => {
+          timeoutHandle = setTimeout(() => {
+            console.warn(`Batch quote timeout after ${timeout}ms for ${tokenIn.symbol} -> ${tokenOut.symbol}`);
+            resolve([]);
+          }, timeout);
+        })
+      ]);
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+  }
 
-      console.log(`Total exchanges initialized: ${this.exchanges.size}`);
+  private async flushPendingRequests(): Promise<void> {
+    const requests = this.pendingRequests;
+    this.pendingRequests = [];
+    this.flushTimer = undefined;
+
+    try {
+      const quoteSets = await this.getMulticallQuotes(requests);
+
+      // Every other exchange is quoted through its adapter
+      const otherExchanges = Array.from(this.exchanges.keys())
+        .filter(name => !MULTICALL_EXCHANGE_TYPES.includes(this.exchangeConfigs[name].type));
+
+      await Promise.all(requests.map(async (request, i) => {
+        const quotes = quoteSets[i];
+
+        if (otherExchanges.length > 0) {
+          quotes.push(...await this.getIndividualQuotes(request.tokenIn, request.tokenOut, request.amountIn, 6000, otherExchanges));
+          quotes.sort((a, b) => b.amountOut.gt(a.amountOut) ? 1 : -1);
+        }
+
+        request.resolve(quotes);
+      }));
     } catch (error) {
-      console.error('Error initializing exchanges:', error);
-      throw error;
+      console.error('Quote batch failed:', error);
+      requests.forEach(request => request.resolve([]));
     }
   }
 
-  async getBatchQuotes(
+  private async getIndividualQuotes(
     tokenIn: TokenInfo,
     tokenOut: TokenInfo,
     amountIn: BigNumber,
-    timeout: number = 12000
+    timeout: number = 12000,
+    exchangeNames?: string[]
   ): Promise<QuoteResult[]> {
     console.log(`Getting batch quotes for ${tokenIn.symbol} -> ${tokenOut.symbol} (${ethers.utils.formatUnits(amountIn, tokenIn.decimals)} ${tokenIn.symbol})`);
 
+    // Only enabled exchanges are ever created
     const enabledExchanges = Array.from(this.exchanges.entries())
-      .filter(([_, exchange]) => {
-        const exchangeKey = exchange.getName().replace(' ', '_').toUpperCase();
-        return EXCHANGES[exchangeKey]?.enabled;
-      });
+      .filter(([name]) => !exchangeNames || exchangeNames.includes(name));
 
     if (enabledExchanges.length === 0) {
       console.warn('No enabled exchanges found');
@@ -103,8 +179,9 @@ export class BatchQuoteEngine {
     });
 
     // Add overall timeout to the batch operation
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
     const batchTimeout = new Promise<never>((_, reject) => {
-      setTimeout(() => {
+      timeoutHandle = setTimeout(() => {
         console.warn(`Batch quote timeout after ${timeout}ms for ${tokenIn.symbol} -> ${tokenOut.symbol}`);
         reject(new Error(`Batch quote timeout after ${timeout}ms`));
       }, timeout);
@@ -137,175 +214,128 @@ export class BatchQuoteEngine {
         console.error(`Batch quote error for ${tokenIn.symbol} -> ${tokenOut.symbol}:`, error);
       }
       return [];
+    } finally {
+      clearTimeout(timeoutHandle);
     }
   }
 
-  async getMulticallQuotes(
-    tokenPairs: Array<{ tokenIn: TokenInfo; tokenOut: TokenInfo; amountIn: BigNumber }>
-  ): Promise<Map<string, QuoteResult[]>> {
+  async getMulticallQuotes(requests: QuoteRequest[]): Promise<QuoteResult[][]> {
     const calls: Array<{ target: string; callData: string }> = [];
-    const callMappings: Array<{ 
-      pairKey: string; 
-      exchangeName: string; 
-      tokenIn: TokenInfo; 
-      tokenOut: TokenInfo; 
-      amountIn: BigNumber 
-    }> = [];
-
-    // Prepare multicall data for all pairs and exchanges
-    for (const pair of tokenPairs) {
-      const pairKey = `${pair.tokenIn.symbol}-${pair.tokenOut.symbol}`;
-      
-      // Uniswap V3 calls
-      const uniswapQuoter = EXCHANGES.UNISWAP_V3.quoter!;
-      const fees = [500, 3000, 10000];
-      
-      for (const fee of fees) {
-        const callData = this.encodeUniswapQuoteCall(
-          pair.tokenIn.address,
-          pair.tokenOut.address,
-          fee,
-          pair.amountIn
+    const callMappings: MulticallMapping[] = [];
+    const blockNumber = this.blockNumber;
+    const overrides = blockNumber !== undefined ? { blockTag: blockNumber } : {};
+
+    // One call per request and exchange
+    requests.forEach((request, requestIndex) => {
+      for (const exchangeName of this.exchanges.keys()) {
+        const config = this.exchangeConfigs[exchangeName];
+        const { tokenIn, tokenOut, amountIn } = request;
+
+        if (config.type === 'algebra') {
+          calls.push({
+            target: config.quoter!,
+            callData: this.encodeAlgebraQuoteCall(tokenIn.address, tokenOut.address, amountIn)
+          });
+          callMappings.push({ requestIndex, exchangeName });
+        }
+      }
+    });
+
+    const chunks: number[] = [];
+    for (let i = 0; i < calls.length; i += MULTICALL_CHUNK_SIZE) {
+      chunks.push(i);
+    }
+
+    // A failed chunk only loses its own calls, the rest of the batch still resolves
+    const chunkResults = await Promise.all(chunks.map(async start => {
+      try {
+        const results: MultiCallResult[] = await this.multicallContract.callStatic.tryAggregate(
+          false,
+          calls.slice(start, start + MULTICALL_CHUNK_SIZE),
+          overrides
         );
-        
-        calls.push({
-          target: uniswapQuoter,
-          callData
-        });
-
-        callMappings.push({
-          pairKey,
-          exchangeName: 'UNISWAP_V3',
-          tokenIn: pair.tokenIn,
-          tokenOut: pair.tokenOut,
-          amountIn: pair.amountIn
-        });
+        return results;
+      } catch (error: any) {
+        console.warn(`Multicall chunk of ${Math.min(MULTICALL_CHUNK_SIZE, calls.length - start)} calls failed:`, error.message || error);
+        this.multicallStats.failedChunks++;
+        return calls.slice(start, start + MULTICALL_CHUNK_SIZE).map(() => ({ success: false, returnData: '0x' }));
       }
+    }));
 
-      // QuickSwap calls
-      const quickswapRouter = EXCHANGES.QUICKSWAP.router;
-      const path = [pair.tokenIn.address, pair.tokenOut.address];
-      const callData = this.encodeQuickSwapQuoteCall(pair.amountIn, path);
-      
-      calls.push({
-        target: quickswapRouter,
-        callData
-      });
+    const results = chunkResults.flat();
 
-      callMappings.push({
-        pairKey,
-        exchangeName: 'QUICKSWAP',
-        tokenIn: pair.tokenIn,
-        tokenOut: pair.tokenOut,
-        amountIn: pair.amountIn
-      });
-    }
+    this.multicallStats.batches++;
+    this.multicallStats.requests += requests.length;
+    this.multicallStats.calls += calls.length;
+    this.multicallStats.failedCalls += results.filter(result => !result.success).length;
 
-    try {
-      const results: MultiCallResult[] = await this.multicallContract.callStatic.tryAggregate(
-        false,
-        calls
-      );
+    console.log(`Resolved ${requests.length} quote requests with ${calls.length} calls in ${chunks.length} multicalls`);
 
-      return this.parseMulticallResults(results, callMappings);
-    } catch (error) {
-      console.error('Multicall failed:', error);
-      throw error;
-    }
+    return this.parseMulticallResults(results, callMappings, requests, blockNumber);
   }
 
-  private encodeUniswapQuoteCall(
+  private encodeAlgebraQuoteCall(
     tokenIn: string,
     tokenOut: string,
-    fee: number,
     amountIn: BigNumber
   ): string {
     const iface = new ethers.utils.Interface([
-      'function quoteExactInputSingle(address tokenIn, address tokenOut, uint24 fee, uint256 amountIn, uint160 sqrtPriceLimitX96) external view returns (uint256 amountOut)'
+      'function quoteExactInputSingle(address tokenIn, address tokenOut, uint256 amountIn, uint160 limitSqrtPrice) external returns (uint256 amountOut, uint16 fee)'
     ]);
 
     return iface.encodeFunctionData('quoteExactInputSingle', [
       tokenIn,
       tokenOut,
-      fee,
       amountIn,
       0
     ]);
   }
 
-  private encodeQuickSwapQuoteCall(
-    amountIn: BigNumber,
-    path: string[]
-  ): string {
-    const iface = new ethers.utils.Interface([
-      'function getAmountsOut(uint256 amountIn, address[] calldata path) external view returns (uint256[] memory amounts)'
-    ]);
-
-    return iface.encodeFunctionData('getAmountsOut', [amountIn, path]);
-  }
-
   private parseMulticallResults(
     results: MultiCallResult[],
-    callMappings: Array<{ 
-      pairKey: string; 
-      exchangeName: string; 
-      tokenIn: TokenInfo; 
-      tokenOut: TokenInfo; 
-      amountIn: BigNumber 
-    }>
-  ): Map<string, QuoteResult[]> {
-    const quotesMap = new Map<string, QuoteResult[]>();
+    callMappings: MulticallMapping[],
+    requests: QuoteRequest[],
+    blockNumber?: number
+  ): QuoteResult[][] {
+    // Best quote per exchange for each request
+    const bestByRequest: Array<Map<string, QuoteResult>> = requests.map(() => new Map());
 
     results.forEach((result, index) => {
-      if (!result.success || !callMappings[index]) {
+      const mapping = callMappings[index];
+      if (!result.success || !mapping) {
         return;
       }
 
-      const mapping = callMappings[index];
-      const { pairKey, exchangeName, tokenIn, tokenOut, amountIn } = mapping;
+      const { requestIndex, exchangeName } = mapping;
+      const { tokenIn, tokenOut, amountIn } = requests[requestIndex];
 
       try {
-        let amountOut: BigNumber;
-
-        if (exchangeName === 'UNISWAP_V3') {
-          const decoded = ethers.utils.defaultAbiCoder.decode(['uint256'], result.returnData);
-          amountOut = decoded[0];
-        } else if (exchangeName === 'QUICKSWAP') {
-          const decoded = ethers.utils.defaultAbiCoder.decode(['uint256[]'], result.returnData);
-          const amounts = decoded[0];
-          amountOut = amounts[amounts.length - 1];
-        } else {
-          return;
-        }
+        const decoded = ethers.utils.defaultAbiCoder.decode(['uint256', 'uint16'], result.returnData);
+        const amountOut: BigNumber = decoded[0];
+        const fee: number = decoded[1];
 
-        if (amountOut.gt(0)) {
-          const quote: QuoteResult = {
+        const best = bestByRequest[requestIndex].get(exchangeName);
+        if (amountOut.gt(0) && (!best || amountOut.gt(best.amountOut))) {
+          bestByRequest[requestIndex].set(exchangeName, {
             dex: exchangeName,
             amountIn,
             amountOut,
             gasEstimate: BigNumber.from(200000), // Default estimate
             priceImpact: 0,
-            route: [tokenIn.address, tokenOut.address]
-          };
-
-          if (!quotesMap.has(pairKey)) {
-            quotesMap.set(pairKey, []);
-          }
-
-          quotesMap.get(pairKey)!.push(quote);
+            route: [tokenIn.address, tokenOut.address],
+            fee,
+            blockNumber
+          });
         }
       } catch (error) {
-        console.warn(`Failed to parse result for ${pairKey} on ${exchangeName}:`, error);
+        console.warn(`Failed to parse result for ${tokenIn.symbol}-${tokenOut.symbol} on ${exchangeName}:`, error);
       }
     });
 
-    // Sort quotes by best price for each pair
-    quotesMap.forEach((quotes, pairKey) => {
-      quotes.sort((a, b) => b.amountOut.sub(a.amountOut).gt(0) ? 1 : -1);
-      quotesMap.set(pairKey, quotes);
-    });
-
-    return quotesMap;
+    // Sort quotes by best price for each request
+    return bestByRequest.map(quotes =>
+      Array.from(quotes.values()).sort((a, b) => b.amountOut.gt(a.amountOut) ? 1 : -1)
+    );
   }
 
   async getOptimalRoute(
@@ -371,6 +401,39 @@ export class BatchQuoteEngine {
     return bestQuote;
   }
 
+  // Pins every quote, batched or individual, to one block until the next call
+  setBlockNumber(blockNumber: number): void {
+    this.blockNumber = blockNumber;
+    this.exchanges.forEach(exchange => exchange.setBlockNumber(blockNumber));
+  }
+
+  // Pools whose Mint and Burn events the caller will report through invalidatePositions
+  watchPositionEvents(poolAddresses: string[]): void {
+    this.exchanges.forEach(exchange => {
+      if (exchange instanceof UniswapV3Exchange) {
+        exchange.watchPositionEvents(poolAddresses);
+      }
+    });
+  }
+
+  invalidatePositions(poolAddresses: string[]): void {
+    this.exchanges.forEach(exchange => {
+      if (exchange instanceof UniswapV3Exchange) {
+        exchange.invalidatePositions(poolAddresses);
+      }
+    });
+  }
+
+  getMulticallStats(): {
+    batches: number;
+    requests: number;
+    calls: number;
+    failedCalls: number;
+    failedChunks: number;
+  } {
+    return { ...this.multicallStats };
+  }
+
   getExchange(name: string): BaseExchange | undefined {
     return this.exchanges.get(name);
   }
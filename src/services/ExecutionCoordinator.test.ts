@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { BigNumber } from 'ethers';
+import { EventEmitter } from 'events';
+import { ArbitrageEngine } from './ArbitrageEngine';
+import { ExecutionCoordinator } from './ExecutionCoordinator';
+import { PerformanceTracker } from './PerformanceTracker';
+import { RiskManager } from './RiskManager';
+import { ArbitrageOpportunity, MultiLegOpportunity, TradeResult, TokenInfo, TOKENS } from '../types';
+
+const { USDC, WETH, WMATIC, WBTC } = TOKENS;
+
+function opportunity(tokenB: TokenInfo, netProfit: number): ArbitrageOpportunity {
+  return {
+    tokenA: USDC,
+    tokenB,
+    amountIn: BigNumber.from(1000),
+    buyDex: 'quickswap',
+    sellDex: 'sushiswap',
+    buyPrice: BigNumber.from(0),
+    sellPrice: BigNumber.from(0),
+    profit: BigNumber.from(netProfit),
+    profitPercent: 1,
+    gasEstimate: BigNumber.from(0),
+    netProfit: BigNumber.from(netProfit)
+  };
+}
+
+function triangle(path: TokenInfo[], netProfit: number): MultiLegOpportunity {
+  return {
+    ...opportunity(path[1], netProfit),
+    legs: path.map((tokenIn, i) => ({
+      dex: 'quickswap',
+      tokenIn,
+      tokenOut: path[(i + 1) % path.length],
+      amountIn: BigNumber.from(1000),
+      expectedAmountOut: BigNumber.from(1000)
+    }))
+  };
+}
+
+function tradeResult(opportunity: ArbitrageOpportunity, txHash?: string): TradeResult {
+  return {
+    successful: txHash !== undefined,
+    txHash,
+    profit: 0,
+    netProfit: 0,
+    amount: 1000,
+    tokenA: opportunity.tokenA.symbol,
+    tokenB: opportunity.tokenB.symbol,
+    sourceDEX: opportunity.buyDex,
+    targetDEX: opportunity.sellDex,
+    gasUsed: 0,
+    gasCost: 0,
+    executionTime: 0,
+    timestamp: new Date()
+  };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ExecutionCoordinator', () => {
+  let engine: EventEmitter & { executeArbitrage: jest.Mock<(opportunity: ArbitrageOpportunity) => Promise<TradeResult>> };
+  let riskManager: EventEmitter & { getCircuitBreakerState: () => { isTriggered: boolean }; recordTrade: jest.Mock };
+  let performanceTracker: { recordTrade: jest.Mock };
+  let pending: Array<{ opportunity: ArbitrageOpportunity; finish: (txHash?: string) => void }>;
+  let circuitBreakerTriggered: boolean;
+  let coordinator: ExecutionCoordinator;
+
+  beforeEach(() => {
+    pending = [];
+    circuitBreakerTriggered = false;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    // Each execution stays in flight until the test finishes it
+    engine = Object.assign(new EventEmitter(), {
+      executeArbitrage: jest.fn((opportunity: ArbitrageOpportunity) => new Promise<TradeResult>(resolve => {
+        pending.push({ opportunity, finish: txHash => resolve(tradeResult(opportunity, txHash)) });
+      }))
+    });
+    riskManager = Object.assign(new EventEmitter(), {
+      getCircuitBreakerState: () => ({ isTriggered: circuitBreakerTriggered }),
+      recordTrade: jest.fn(async () => undefined)
+    });
+    performanceTracker = { recordTrade: jest.fn() };
+
+    coordinator = new ExecutionCoordinator(
+      engine as unknown as ArbitrageEngine,
+      riskManager as unknown as RiskManager,
+      performanceTracker as unknown as PerformanceTracker,
+      { maxConcurrentExecutions: 2, maxQueueSize: 10, opportunityTtlMs: 5000 }
+    );
+    coordinator.start();
+  });
+
+  it('runs the most profitable opportunities first, up to the concurrency limit', async () => {
+    engine.emit('opportunities', [opportunity(WETH, 10), opportunity(WMATIC, 30), opportunity(WBTC, 20)]);
+
+    expect(pending.map(item => item.opportunity.tokenB.symbol)).toEqual(['WMATIC', 'WBTC']);
+    expect(coordinator.getStats().queued).toBe(1);
+
+    pending[0].finish('0x01');
+    await flush();
+
+    expect(pending.map(item => item.opportunity.tokenB.symbol)).toEqual(['WMATIC', 'WBTC', 'WETH']);
+    expect(coordinator.getStats().executed).toBe(1);
+  });
+
+  it('holds back opportunities on a pair that is already executing', async () => {
+    engine.emit('opportunities', [opportunity(WETH, 10)]);
+    engine.emit('opportunities', [opportunity(WETH, 50)]);
+
+    expect(pending).toHaveLength(1);
+    expect(coordinator.getStats().lockedPairs).toEqual(['USDC/WETH']);
+
+    pending[0].finish('0x01');
+    await flush();
+
+    expect(pending).toHaveLength(2);
+    expect(pending[1].opportunity.netProfit.toNumber()).toBe(50);
+  });
+
+  it('locks every pair a cyclic route trades', async () => {
+    engine.emit('opportunities', [triangle([USDC, WETH, WMATIC], 30), opportunity(WMATIC, 20), opportunity(WBTC, 10)]);
+
+    expect(pending.map(item => item.opportunity.tokenB.symbol)).toEqual(['WETH', 'WBTC']);
+    expect(coordinator.getStats().lockedPairs.sort()).toEqual(['USDC/WBTC', 'USDC/WETH', 'USDC/WMATIC', 'WETH/WMATIC']);
+
+    pending[0].finish('0x01');
+    await flush();
+
+    expect(pending[2].opportunity.tokenB.symbol).toBe('WMATIC');
+  });
+
+  it('replaces a queued opportunity with a fresher one for the same route', async () => {
+    engine.emit('opportunities', [opportunity(WMATIC, 30), opportunity(WBTC, 20)]);
+    engine.emit('opportunities', [opportunity(WETH, 5)]);
+    engine.emit('opportunities', [opportunity(WETH, 8)]);
+
+    expect(coordinator.getStats().queued).toBe(1);
+
+    pending[0].finish('0x01');
+    await flush();
+
+    expect(pending[2].opportunity.netProfit.toNumber()).toBe(8);
+  });
+
+  it('records broadcast trades and counts rejections separately', async () => {
+    engine.emit('opportunities', [opportunity(WETH, 10), opportunity(WMATIC, 20)]);
+
+    pending[0].finish('0x01');
+    pending[1].finish();
+    await flush();
+
+    expect(performanceTracker.recordTrade).toHaveBeenCalledTimes(1);
+    expect(riskManager.recordTrade).toHaveBeenCalledTimes(1);
+    expect(coordinator.getStats()).toMatchObject({ executed: 1, rejected: 1, activeExecutions: 0 });
+  });
+
+  it('drops the queue when the circuit breaker trips', () => {
+    engine.emit('opportunities', [opportunity(WETH, 10), opportunity(WMATIC, 20), opportunity(WBTC, 30)]);
+
+    circuitBreakerTriggered = true;
+    riskManager.emit('circuitBreakerTriggered');
+    engine.emit('opportunities', [opportunity(TOKENS.DAI, 40)]);
+
+    expect(coordinator.getStats()).toMatchObject({ queued: 0, dropped: 2 });
+  });
+
+  it('expires opportunities that waited past their time to live', async () => {
+    let now = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    engine.emit('opportunities', [opportunity(WETH, 10), opportunity(WMATIC, 20), opportunity(WBTC, 30)]);
+    now = 6000;
+    pending[0].finish('0x01');
+    await flush();
+
+    expect(pending).toHaveLength(2);
+    expect(coordinator.getStats()).toMatchObject({ queued: 0, dropped: 1 });
+  });
+
+  it('stops listening once stopped', () => {
+    coordinator.stop();
+    engine.emit('opportunities', [opportunity(WETH, 10)]);
+
+    expect(engine.executeArbitrage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,224 @@
+import { EventEmitter } from 'events';
+import { ArbitrageEngine } from './ArbitrageEngine';
+import { RiskManager } from './RiskManager';
+import { PerformanceTracker } from './PerformanceTracker';
+import { ArbitrageOpportunity, TradeResult, getPairKey, isMultiLegOpportunity } from '../types';
+
+export interface ExecutionCoordinatorConfig {
+  maxConcurrentExecutions: number; // Trades in flight at once
+  maxQueueSize: number; // Pending opportunities kept between scans
+  opportunityTtlMs: number; // Queued opportunities older than this are dropped
+}
+
+interface QueuedOpportunity {
+  opportunity: ArbitrageOpportunity;
+  routeKey: string;
+  pairKeys: string[]; // Every pair the route trades, locked while it executes
+  receivedAt: number;
+}
+
+export class ExecutionCoordinator extends EventEmitter {
+  private arbitrageEngine: ArbitrageEngine;
+  private riskManager: RiskManager;
+  private performanceTracker: PerformanceTracker;
+  private config: ExecutionCoordinatorConfig;
+  private queue: QueuedOpportunity[] = [];
+  private lockedPairs: Set<string> = new Set();
+  private activeExecutions: number = 0;
+  private isRunning: boolean = false;
+  private stats = {
+    received: 0,
+    executed: 0,
+    rejected: 0,
+    dropped: 0
+  };
+
+  private readonly onOpportunities = (opportunities: ArbitrageOpportunity[]) => {
+    this.enqueue(opportunities);
+  };
+
+  private readonly onCircuitBreaker = () => {
+    this.stats.dropped += this.queue.length;
+    this.queue = [];
+  };
+
+  constructor(
+    arbitrageEngine: ArbitrageEngine,
+    riskManager: RiskManager,
+    performanceTracker: PerformanceTracker,
+    config: ExecutionCoordinatorConfig
+  ) {
+    super();
+    this.arbitrageEngine = arbitrageEngine;
+    this.riskManager = riskManager;
+    this.performanceTracker = performanceTracker;
+    this.config = config;
+  }
+
+  start(): void {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    this.arbitrageEngine.on('opportunities', this.onOpportunities);
+    this.riskManager.on('circuitBreakerTriggered', this.onCircuitBreaker);
+
+    console.log(`Execution coordinator started (max ${this.config.maxConcurrentExecutions} concurrent trades)`);
+    this.emit('started');
+  }
+
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    this.arbitrageEngine.off('opportunities', this.onOpportunities);
+    this.riskManager.off('circuitBreakerTriggered', this.onCircuitBreaker);
+    this.queue = [];
+
+    console.log('Execution coordinator stopped');
+    this.emit('stopped');
+  }
+
+  enqueue(opportunities: ArbitrageOpportunity[]): void {
+    if (!this.isRunning || opportunities.length === 0) {
+      return;
+    }
+
+    this.stats.received += opportunities.length;
+
+    if (this.riskManager.getCircuitBreakerState().isTriggered) {
+      this.stats.dropped += opportunities.length;
+      return;
+    }
+
+    const now = Date.now();
+
+    // Fresh opportunities replace anything still queued for the same route
+    const incoming = opportunities.map(opportunity => {
+      const pairKeys = this.getPairKeys(opportunity);
+      return {
+        opportunity,
+        routeKey: pairKeys.join('|'),
+        pairKeys,
+        receivedAt: now
+      };
+    });
+    const incomingRoutes = new Set(incoming.map(item => item.routeKey));
+
+    this.queue = [
+      ...incoming,
+      ...this.queue.filter(item => !incomingRoutes.has(item.routeKey))
+    ];
+
+    // Keep the queue ranked by net profit, best first
+    this.queue.sort((a, b) => b.opportunity.netProfit.gt(a.opportunity.netProfit) ? 1 : -1);
+
+    if (this.queue.length > this.config.maxQueueSize) {
+      this.stats.dropped += this.queue.length - this.config.maxQueueSize;
+      this.queue = this.queue.slice(0, this.config.maxQueueSize);
+    }
+
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.isRunning && this.activeExecutions < this.config.maxConcurrentExecutions) {
+      const next = this.takeNext();
+      if (!next) {
+        return;
+      }
+
+      next.pairKeys.forEach(pairKey => this.lockedPairs.add(pairKey));
+      this.activeExecutions++;
+
+      this.execute(next)
+        .catch(error => {
+          console.error(`Execution of ${next.routeKey} failed unexpectedly:`, error);
+          this.emit('error', error);
+        })
+        .finally(() => {
+          next.pairKeys.forEach(pairKey => this.lockedPairs.delete(pairKey));
+          this.activeExecutions--;
+          this.drain();
+        });
+    }
+  }
+
+  private takeNext(): QueuedOpportunity | undefined {
+    const now = Date.now();
+
+    // Expire stale entries before picking
+    const freshQueue = this.queue.filter(item => now - item.receivedAt <= this.config.opportunityTtlMs);
+    this.stats.dropped += this.queue.length - freshQueue.length;
+    this.queue = freshQueue;
+
+    const index = this.queue.findIndex(item => !item.pairKeys.some(pairKey => this.lockedPairs.has(pairKey)));
+    if (index === -1) {
+      return undefined;
+    }
+
+    return this.queue.splice(index, 1)[0];
+  }
+
+  private async execute(item: QueuedOpportunity): Promise<void> {
+    if (this.riskManager.getCircuitBreakerState().isTriggered) {
+      this.stats.dropped++;
+      return;
+    }
+
+    // Risk approval happens inside executeArbitrage, against the revalidated opportunity
+    const result = await this.arbitrageEngine.executeArbitrage(item.opportunity);
+
+    if (!this.wasExecuted(result)) {
+      this.stats.rejected++;
+      this.emit('executionSkipped', { opportunity: item.opportunity, result });
+      return;
+    }
+
+    this.stats.executed++;
+    this.performanceTracker.recordTrade(result);
+    await this.riskManager.recordTrade(result);
+
+    this.emit('executionCompleted', { opportunity: item.opportunity, result });
+  }
+
+  // Rejections before broadcast (revalidation, risk, simulation) are not trades
+  private wasExecuted(result: TradeResult): boolean {
+    return result.successful || result.txHash !== undefined;
+  }
+
+  private getPairKeys(opportunity: ArbitrageOpportunity): string[] {
+    const pairKeys = isMultiLegOpportunity(opportunity)
+      ? opportunity.legs.map(leg => getPairKey(leg.tokenIn, leg.tokenOut))
+      : [getPairKey(opportunity.tokenA, opportunity.tokenB)];
+
+    return pairKeys.sort();
+  }
+
+  getStats(): {
+    isRunning: boolean;
+    queued: number;
+    activeExecutions: number;
+    lockedPairs: string[];
+    received: number;
+    executed: number;
+    rejected: number;
+    dropped: number;
+  } {
+    return {
+      isRunning: this.isRunning,
+      queued: this.queue.length,
+      activeExecutions: this.activeExecutions,
+      lockedPairs: Array.from(this.lockedPairs),
+      ...this.stats
+    };
+  }
+
+  updateConfig(newConfig: Partial<ExecutionCoordinatorConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    this.drain();
+  }
+}
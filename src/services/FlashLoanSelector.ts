@@ -0,0 +1,199 @@
+import { ethers, BigNumber } from 'ethers';
+import { FlashLoanProvider, TokenInfo } from '../types';
+
+const ERC20_BALANCE_ABI = [
+  'function balanceOf(address account) external view returns (uint256)'
+];
+
+const AAVE_POOL_ABI = [
+  'function FLASHLOAN_PREMIUM_TOTAL() external view returns (uint128)',
+  'function getReserveData(address asset) external view returns (tuple(tuple(uint256 data) configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))'
+];
+
+// Flash loan sources used by FlashArbitrageBot.sol
+const BALANCER_VAULT_ADDRESS = '0xBA12222222228d8Ba445958a75a0704d566BF2C8';
+const AAVE_V3_POOL_ADDRESS = '0x794a61358D6845594F94dc1DB02A252b5b4814aD';
+
+// ReserveConfiguration bits: the reserve must be active, unpaused and flash-loanable
+const AAVE_RESERVE_ACTIVE_BIT = 56;
+const AAVE_RESERVE_PAUSED_BIT = 60;
+const AAVE_RESERVE_FLASHLOAN_ENABLED_BIT = 63;
+
+// The premium and reserve flags only change through Aave governance
+const AAVE_CONFIG_TTL_MS = 60 * 60 * 1000;
+
+// Liquidity lifetime when no block number has been provided (one Polygon block)
+const LIQUIDITY_TTL_MS = 2000;
+
+const FLASH_LOAN_PROVIDERS: FlashLoanProvider[] = ['balancer', 'aave'];
+
+export interface FlashLoanQuote {
+  provider: FlashLoanProvider;
+  liquidity: BigNumber; // Amount of the token the provider can lend right now
+  fee: BigNumber; // Fee on the quoted amount, in the borrowed token
+}
+
+interface CachedLiquidity {
+  liquidity: BigNumber | null; // null when the provider cannot lend the token at all
+  blockNumber?: number;
+  fetchedAt: number;
+}
+
+// Picks the cheapest flash loan source that can lend the amount: the Balancer Vault charges
+// nothing, Aave V3 charges its premium but often holds more of a token
+export class FlashLoanSelector {
+  private provider: ethers.providers.Provider;
+  private aavePool: ethers.Contract;
+  private aTokens: Map<string, { address: string | null; fetchedAt: number }> = new Map(); // null when the reserve cannot flash-loan
+  private aavePremium?: { basisPoints: BigNumber; fetchedAt: number };
+  private liquidity: Map<string, CachedLiquidity> = new Map();
+  private pendingLiquidity: Map<string, Promise<CachedLiquidity>> = new Map();
+  private blockNumber?: number;
+
+  constructor(provider: ethers.providers.Provider) {
+    this.provider = provider;
+    this.aavePool = new ethers.Contract(AAVE_V3_POOL_ADDRESS, AAVE_POOL_ABI, provider);
+  }
+
+  // Cheapest quote covering amount, or null when no provider holds enough
+  async select(token: TokenInfo, amount: BigNumber): Promise<FlashLoanQuote | null> {
+    const quotes = await this.getQuotes(token, amount);
+
+    const viable = quotes
+      .filter(quote => quote.liquidity.gte(amount))
+      .sort((a, b) => a.fee.lt(b.fee) ? -1 : a.fee.gt(b.fee) ? 1 : 0);
+
+    return viable[0] ?? null;
+  }
+
+  // Most any single provider can lend, which bounds the trade size
+  async getMaxLiquidity(token: TokenInfo): Promise<BigNumber> {
+    const quotes = await this.getQuotes(token, BigNumber.from(0));
+
+    return quotes.reduce(
+      (max, quote) => quote.liquidity.gt(max) ? quote.liquidity : max,
+      BigNumber.from(0)
+    );
+  }
+
+  // Amount provider can lend right now, read once per block; null when it cannot lend the token at all
+  async getLiquidity(provider: FlashLoanProvider, token: TokenInfo): Promise<BigNumber | null> {
+    const key = `${provider}:${token.address.toLowerCase()}`;
+    const cached = this.liquidity.get(key);
+    if (cached && this.isFresh(cached)) {
+      return cached.liquidity;
+    }
+
+    // Concurrent checks of one token share one probe
+    let pending = this.pendingLiquidity.get(key);
+    if (!pending) {
+      pending = this.probeLiquidity(provider, token)
+        .then(entry => {
+          this.liquidity.set(key, entry);
+          return entry;
+        })
+        .finally(() => {
+          this.pendingLiquidity.delete(key);
+        });
+      this.pendingLiquidity.set(key, pending);
+    }
+
+    return (await pending).liquidity;
+  }
+
+  // Latest block seen by the scanner; liquidity is re-probed when this moves
+  setBlockNumber(blockNumber: number): void {
+    this.blockNumber = blockNumber;
+  }
+
+  private async getQuotes(token: TokenInfo, amount: BigNumber): Promise<FlashLoanQuote[]> {
+    const results = await Promise.allSettled(
+      FLASH_LOAN_PROVIDERS.map(provider => this.getQuote(provider, token, amount))
+    );
+
+    const quotes: FlashLoanQuote[] = [];
+    for (const result of results) {
+      if (result.status === 'fulfilled' && result.value) {
+        quotes.push(result.value);
+      } else if (result.status === 'rejected') {
+        console.warn(`Flash loan liquidity check failed for ${token.symbol}:`, result.reason?.message || result.reason);
+      }
+    }
+
+    return quotes;
+  }
+
+  private async getQuote(provider: FlashLoanProvider, token: TokenInfo, amount: BigNumber): Promise<FlashLoanQuote | null> {
+    const liquidity = await this.getLiquidity(provider, token);
+    if (!liquidity) {
+      return null;
+    }
+
+    if (provider === 'balancer') {
+      return { provider, liquidity, fee: BigNumber.from(0) };
+    }
+
+    // PercentageMath.percentMul rounds half up
+    const premiumBasisPoints = await this.getAavePremium();
+    const fee = amount.mul(premiumBasisPoints).add(5000).div(10000);
+
+    return { provider, liquidity, fee };
+  }
+
+  // Vault.flashLoan lends from the Vault's own token balance, which pools all its pools' holdings;
+  // Aave lends the reserve's unborrowed balance, held by its aToken
+  private async probeLiquidity(provider: FlashLoanProvider, token: TokenInfo): Promise<CachedLiquidity> {
+    const blockNumber = this.blockNumber;
+    const holder = provider === 'balancer' ? BALANCER_VAULT_ADDRESS : await this.getAToken(token);
+
+    let liquidity: BigNumber | null = null;
+    if (holder) {
+      const tokenContract = new ethers.Contract(token.address, ERC20_BALANCE_ABI, this.provider);
+      liquidity = await tokenContract.balanceOf(holder, blockNumber !== undefined ? { blockTag: blockNumber } : {});
+    }
+
+    return { liquidity, blockNumber, fetchedAt: Date.now() };
+  }
+
+  private isFresh(entry: CachedLiquidity): boolean {
+    // Block-driven scans re-probe on every new block; without block numbers fall back to a block time
+    if (this.blockNumber !== undefined) {
+      return entry.blockNumber === this.blockNumber;
+    }
+    return Date.now() - entry.fetchedAt < LIQUIDITY_TTL_MS;
+  }
+
+  private async getAToken(token: TokenInfo): Promise<string | null> {
+    const key = token.address.toLowerCase();
+    const cached = this.aTokens.get(key);
+    if (cached && Date.now() - cached.fetchedAt < AAVE_CONFIG_TTL_MS) {
+      return cached.address;
+    }
+
+    const reserve = await this.aavePool.getReserveData(token.address);
+    const configuration = BigNumber.from(reserve.configuration.data);
+    const isSet = (bit: number) => !configuration.shr(bit).and(1).isZero();
+
+    // Unlisted, inactive, paused or flash-loan-disabled reserves cannot lend
+    const flashLoanable = reserve.aTokenAddress !== ethers.constants.AddressZero &&
+      isSet(AAVE_RESERVE_ACTIVE_BIT) &&
+      isSet(AAVE_RESERVE_FLASHLOAN_ENABLED_BIT) &&
+      !isSet(AAVE_RESERVE_PAUSED_BIT);
+
+    const address: string | null = flashLoanable ? reserve.aTokenAddress : null;
+    this.aTokens.set(key, { address, fetchedAt: Date.now() });
+
+    return address;
+  }
+
+  private async getAavePremium(): Promise<BigNumber> {
+    if (this.aavePremium && Date.now() - this.aavePremium.fetchedAt < AAVE_CONFIG_TTL_MS) {
+      return this.aavePremium.basisPoints;
+    }
+
+    const basisPoints: BigNumber = await this.aavePool.FLASHLOAN_PREMIUM_TOTAL();
+    this.aavePremium = { basisPoints, fetchedAt: Date.now() };
+
+    return basisPoints;
+  }
+}
@@ -1,5 +1,6 @@
 import { ethers, BigNumber } from 'ethers';
 import axios from 'axios';
+import { PriceOracle } from './PriceOracle';
 
 export interface GasPrice {
   safeLow: BigNumber;
@@ -23,14 +24,18 @@ export interface GasCostAnalysis {
 export class GasManager {
   private provider: ethers.providers.Provider;
   private gasStationUrl: string = 'https://gasstation.polygon.technology/v2';
-  private maticPriceUSD: number = 0.5; // Default, should be updated from price feed
+  private maticPriceUSD: number = 0.5; // Fallback until the price oracle has a fresh WMATIC price
+  private priceOracle?: PriceOracle;
   
   // Gas estimates for different operations
   private readonly GAS_ESTIMATES = {
     FLASH_LOAN_BASE: 150000,
     UNISWAP_V3_SWAP: 180000,
     QUICKSWAP_SWAP: 120000,
+    QUICKSWAP_V3_SWAP: 180000,
     SUSHISWAP_SWAP: 120000,
+    CURVE_SWAP: 350000, // exchange_underlying also deposits and withdraws through Aave
+    BALANCER_SWAP: 160000,
     TOKEN_TRANSFER: 21000,
     APPROVAL: 46000,
     SAFETY_BUFFER: 1.2 // 20% buffer
@@ -38,7 +43,6 @@ export class GasManager {
 
   constructor(provider: ethers.providers.Provider) {
     this.provider = provider;
-    this.updateMaticPrice();
   }
 
   async getCurrentGasPrice(): Promise<GasPrice> {
@@ -100,26 +104,21 @@ export class GasManager {
     targetExchange: string,
     gasPrice: BigNumber
   ): GasCostAnalysis {
-    const flashLoanGas = BigNumber.from(this.GAS_ESTIMATES.FLASH_LOAN_BASE);
-    
-    let sourceSwapGas = BigNumber.from(this.GAS_ESTIMATES.QUICKSWAP_SWAP);
-    let targetSwapGas = BigNumber.from(this.GAS_ESTIMATES.QUICKSWAP_SWAP);
-
-    // Adjust gas estimates based on exchange
-    if (sourceExchange.includes('UNISWAP')) {
-      sourceSwapGas = BigNumber.from(this.GAS_ESTIMATES.UNISWAP_V3_SWAP);
-    } else if (sourceExchange.includes('SUSHI')) {
-      sourceSwapGas = BigNumber.from(this.GAS_ESTIMATES.SUSHISWAP_SWAP);
-    }
+    return this.calculateRouteGasCost([sourceExchange, targetExchange], gasPrice);
+  }
 
-    if (targetExchange.includes('UNISWAP')) {
-      targetSwapGas = BigNumber.from(this.GAS_ESTIMATES.UNISWAP_V3_SWAP);
-    } else if (targetExchange.includes('SUSHI')) {
-      targetSwapGas = BigNumber.from(this.GAS_ESTIMATES.SUSHISWAP_SWAP);
-    }
+  calculateRouteGasCost(
+    exchanges: string[],
+    gasPrice: BigNumber
+  ): GasCostAnalysis {
+    const flashLoanGas = BigNumber.from(this.GAS_ESTIMATES.FLASH_LOAN_BASE);
 
-    const swapGas = sourceSwapGas.add(targetSwapGas);
-    const approvalGas = BigNumber.from(this.GAS_ESTIMATES.APPROVAL * 2); // Two approvals
+    // One swap and one approval per leg
+    const swapGas = exchanges.reduce(
+      (total, exchange) => total.add(this.getSwapGasEstimate(exchange)),
+      BigNumber.from(0)
+    );
+    const approvalGas = BigNumber.from(this.GAS_ESTIMATES.APPROVAL * exchanges.length);
     const totalGas = flashLoanGas.add(swapGas).add(approvalGas);
     
     // Apply safety buffer
@@ -141,6 +140,21 @@ export class GasManager {
     };
   }
 
+  private getSwapGasEstimate(exchange: string): number {
+    if (exchange.includes('QUICKSWAP_V3')) {
+      return this.GAS_ESTIMATES.QUICKSWAP_V3_SWAP;
+    } else if (exchange.includes('UNISWAP')) {
+      return this.GAS_ESTIMATES.UNISWAP_V3_SWAP;
+    } else if (exchange.includes('SUSHI')) {
+      return this.GAS_ESTIMATES.SUSHISWAP_SWAP;
+    } else if (exchange.includes('CURVE')) {
+      return this.GAS_ESTIMATES.CURVE_SWAP;
+    } else if (exchange.includes('BALANCER')) {
+      return this.GAS_ESTIMATES.BALANCER_SWAP;
+    }
+    return this.GAS_ESTIMATES.QUICKSWAP_SWAP;
+  }
+
   calculateMinProfitThreshold(
     gasCost: BigNumber,
     amountIn: BigNumber,
@@ -265,7 +279,7 @@ export class GasManager {
 
   private weiToUSD(wei: BigNumber): number {
     const ether = parseFloat(ethers.utils.formatEther(wei));
-    return ether * this.maticPriceUSD;
+    return ether * this.getMaticPrice();
   }
 
   private calculateBreakEvenSpread(gasCostUSD: number, tradeAmountUSD: number = 10000): number {
@@ -273,10 +287,9 @@ export class GasManager {
   }
 
   private convertGasCostToToken(gasCost: BigNumber, amountIn: BigNumber): BigNumber {
-    // Simplified conversion - in production, you'd use actual price feeds
-    // Assumes 1 MATIC = 0.5 USD and adjusts proportionally
+    // Gas cost in USD at the oracle's MATIC price
     const gasCostEther = ethers.utils.formatEther(gasCost);
-    const gasCostUSD = parseFloat(gasCostEther) * this.maticPriceUSD;
+    const gasCostUSD = parseFloat(gasCostEther) * this.getMaticPrice();
     
     // Very rough conversion - this should use actual price oracles
     const tokenValueUSD = 1; // Assume $1 per token unit for simplification
@@ -285,17 +298,8 @@ export class GasManager {
     return ethers.utils.parseUnits(tokensNeeded.toString(), 18);
   }
 
-  private async updateMaticPrice(): Promise<void> {
-    try {
-      const response = await axios.get(
-        'https://api.coingecko.com/api/v3/simple/price?ids=matic-network&vs_currencies=usd',
-        { timeout: 5000 }
-      );
-      
-      this.maticPriceUSD = response.data['matic-network']?.usd || 0.5;
-    } catch (error) {
-      console.warn('Failed to update MATIC price, using default:', error);
-    }
+  setPriceOracle(priceOracle: PriceOracle): void {
+    this.priceOracle = priceOracle;
   }
 
   setMaticPrice(priceUSD: number): void {
@@ -303,7 +307,7 @@ export class GasManager {
   }
 
   getMaticPrice(): number {
-    return this.maticPriceUSD;
+    return this.priceOracle?.getMaticPriceUSD() ?? this.maticPriceUSD;
   }
 
   // Advanced gas optimization strategies
@@ -25,7 +25,6 @@ export class MEVProtection {
   private wallet: ethers.Wallet;
   private config: MEVProtectionConfig;
   private privateRPCEndpoints: string[];
-  private nonces: Map<string, number> = new Map();
 
   constructor(
     provider: ethers.providers.Provider,
@@ -95,6 +94,13 @@ export class MEVProtection {
     return this.wallet.sendTransaction(protectedTx);
   }
 
+  // Applies the same protection as a live submission without broadcasting
+  async previewProtectedTransaction(
+    transaction: ProtectedTransaction
+  ): Promise<ethers.providers.TransactionRequest> {
+    return this.addMEVProtection(transaction);
+  }
+
   private async addMEVProtection(
     transaction: ProtectedTransaction
   ): Promise<ethers.providers.TransactionRequest> {
@@ -104,19 +110,14 @@ export class MEVProtection {
     // Add deadline protection
     const deadline = Math.floor(Date.now() / 1000) + 300; // 5 minutes
     
-    // Add slippage protection by encoding it in the transaction data
-    const protectedData = await this.addSlippageProtection(
-      transaction.data,
-      this.config.maxSlippageProtection
-    );
-
+    // Slippage bounds already travel in the calldata as each swap step's minOut
     return {
       to: transaction.to,
-      data: protectedData,
+      data: transaction.data,
       value: transaction.value,
       gasLimit: transaction.gasLimit.mul(110).div(100), // 10% buffer
       gasPrice,
-      nonce: await this.getSecureNonce(),
+      nonce: transaction.nonce, // Reserved by the caller, which hands out this wallet's nonces
       type: 2, // EIP-1559 transaction type
       maxFeePerGas: gasPrice,
       maxPriorityFeePerGas: gasPrice.div(10) // 10% priority fee
@@ -143,49 +144,6 @@ export class MEVProtection {
     }
   }
 
-  private async addSlippageProtection(
-    originalData: string,
-    maxSlippage: number
-  ): Promise<string> {
-    // Decode the original transaction data
-    const iface = new ethers.utils.Interface([
-      'function receiveFlashLoan(address[] tokens, uint256[] amounts, uint256[] feeAmounts, bytes userData)'
-    ]);
-
-    try {
-      const decoded = iface.decodeFunctionData('receiveFlashLoan', originalData);
-      
-      // Extract and modify the userData to include slippage protection
-      const userData = decoded.userData;
-      const decodedUserData = ethers.utils.defaultAbiCoder.decode(
-        ['tuple(address tokenA, address tokenB, uint256 amount, uint256 minProfit, uint256 maxSlippage, uint8 sourceExchange, uint8 targetExchange, uint24 uniswapFee, address[] quickswapPath)'],
-        userData
-      );
-
-      // Update slippage protection
-      const updatedParams = {
-        ...decodedUserData[0],
-        maxSlippage: Math.floor(maxSlippage * 100), // Convert to basis points
-        deadline: Math.floor(Date.now() / 1000) + 300
-      };
-
-      const newUserData = ethers.utils.defaultAbiCoder.encode(
-        ['tuple(address tokenA, address tokenB, uint256 amount, uint256 minProfit, uint256 maxSlippage, uint8 sourceExchange, uint8 targetExchange, uint24 uniswapFee, address[] quickswapPath)'],
-        [updatedParams]
-      );
-
-      return iface.encodeFunctionData('receiveFlashLoan', [
-        decoded.tokens,
-        decoded.amounts,
-        decoded.feeAmounts,
-        newUserData
-      ]);
-    } catch (error) {
-      console.warn('Failed to add slippage protection:', error);
-      return originalData;
-    }
-  }
-
   private async submitWithCommitReveal(
     transaction: ethers.providers.TransactionRequest
   ): Promise<ethers.ContractTransaction> {
@@ -234,21 +192,6 @@ export class MEVProtection {
     return this.privateRPCEndpoints[randomIndex];
   }
 
-  private async getSecureNonce(): Promise<number> {
-    const address = this.wallet.address;
-    
-    // Get nonce from multiple sources and use the highest
-    const [providerNonce, cachedNonce] = await Promise.all([
-      this.provider.getTransactionCount(address, 'pending'),
-      this.nonces.get(address) || 0
-    ]);
-
-    const secureNonce = Math.max(providerNonce, cachedNonce);
-    this.nonces.set(address, secureNonce + 1);
-    
-    return secureNonce;
-  }
-
   // Sandwich attack detection
   async detectSandwichAttack(
     transaction: ProtectedTransaction
@@ -1,10 +1,13 @@
 import { TradeResult, ArbitrageOpportunity } from '../types';
+import { PriceOracle } from './PriceOracle';
 import { EventEmitter } from 'events';
 
 export interface PerformanceMetrics {
   totalTrades: number;
   successfulTrades: number;
+  simulatedTrades: number; // Paper trades from dry-run mode
   totalProfit: number;
+  totalProfitUSD: number;
   totalGasSpent: number;
   averageLatency: number;
   mevCaptured: number;
@@ -59,6 +62,7 @@ export class PerformanceTracker extends EventEmitter {
   private startTime: number;
   private lastReportTime: number = 0;
   private riskFreeRate: number = 0.02; // 2% annual risk-free rate
+  private priceOracle?: PriceOracle;
 
   constructor(initialCapital: number) {
     super();
@@ -76,7 +80,9 @@ export class PerformanceTracker extends EventEmitter {
     return {
       totalTrades: 0,
       successfulTrades: 0,
+      simulatedTrades: 0,
       totalProfit: 0,
+      totalProfitUSD: 0,
       totalGasSpent: 0,
       averageLatency: 0,
       mevCaptured: 0,
@@ -99,7 +105,17 @@ export class PerformanceTracker extends EventEmitter {
     };
   }
 
+  setPriceOracle(priceOracle: PriceOracle): void {
+    this.priceOracle = priceOracle;
+  }
+
   recordTrade(trade: TradeResult): void {
+    // Net profit is in MATIC; value it at the price when the trade happened
+    const maticPrice = this.priceOracle?.getMaticPriceUSD();
+    if (trade.netProfitUSD === undefined && maticPrice !== undefined) {
+      trade = { ...trade, netProfitUSD: trade.netProfit * maticPrice };
+    }
+
     this.trades.push(trade);
     
     // Keep only last 10,000 trades for memory management
@@ -129,11 +145,13 @@ export class PerformanceTracker extends EventEmitter {
     // Basic metrics
     this.metrics.totalTrades = this.trades.length;
     this.metrics.successfulTrades = successfulTrades.length;
+    this.metrics.simulatedTrades = this.trades.filter(t => t.simulated).length;
     this.metrics.successRate = this.metrics.totalTrades > 0 ? 
       (this.metrics.successfulTrades / this.metrics.totalTrades) * 100 : 0;
 
     // Profit metrics
     this.metrics.totalProfit = this.trades.reduce((sum, trade) => sum + trade.netProfit, 0);
+    this.metrics.totalProfitUSD = this.trades.reduce((sum, trade) => sum + (trade.netProfitUSD || 0), 0);
     this.metrics.totalGasSpent = this.trades.reduce((sum, trade) => sum + trade.gasCost, 0);
     this.metrics.failedTransactionCosts = failedTrades.reduce((sum, trade) => sum + trade.gasCost, 0);
 
@@ -393,6 +411,10 @@ export class PerformanceTracker extends EventEmitter {
       recommendations.push('Performance looks good - continue monitoring');
     }
 
+    if (this.metrics.simulatedTrades > 0) {
+      recommendations.push(`${this.metrics.simulatedTrades} of ${this.metrics.totalTrades} trades are simulated paper trades - results exclude real execution risk`);
+    }
+
     return recommendations;
   }
 
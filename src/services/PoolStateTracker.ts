@@ -0,0 +1,356 @@
+import { ethers } from 'ethers';
+import { TokenInfo, EXCHANGES, getPairKey } from '../types';
+
+const V2_FACTORY_ABI = [
+  'function getPair(address tokenA, address tokenB) external view returns (address pair)'
+];
+
+// Events that move a pool's price: Sync on Uniswap V2 forks; Swap, Mint and Burn on Uniswap V3
+// and Algebra pools, which emit them with the same layouts
+const POOL_EVENTS_ABI = [
+  'event Sync(uint112 reserve0, uint112 reserve1)',
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)'
+];
+
+// Events that move a Curve pool's balances or amplification, and with them every coin pair's price
+const CURVE_POOL_EVENTS_ABI = [
+  'event TokenExchange(address indexed buyer, int128 sold_id, uint256 tokens_sold, int128 bought_id, uint256 tokens_bought)',
+  'event TokenExchangeUnderlying(address indexed buyer, int128 sold_id, uint256 tokens_sold, int128 bought_id, uint256 tokens_bought)',
+  'event AddLiquidity(address indexed provider, uint256[3] token_amounts, uint256[3] fees, uint256 invariant, uint256 token_supply)',
+  'event RemoveLiquidity(address indexed provider, uint256[3] token_amounts, uint256[3] fees, uint256 token_supply)',
+  'event RemoveLiquidityOne(address indexed provider, uint256 token_amount, uint256 coin_amount)',
+  'event RemoveLiquidityImbalance(address indexed provider, uint256[3] token_amounts, uint256[3] fees, uint256 invariant, uint256 token_supply)',
+  'event RampA(uint256 old_A, uint256 new_A, uint256 initial_time, uint256 future_time)',
+  'event StopRampA(uint256 A, uint256 t)'
+];
+
+const CURVE_POOL_ABI = [
+  'function underlying_coins(uint256 i) external view returns (address)'
+];
+
+// Curve pools hold at most eight coins
+const MAX_CURVE_COINS = 8;
+
+// Every Balancer pool's swaps and joins/exits are emitted by the Vault, tagged with the pool id
+const BALANCER_VAULT_EVENTS_ABI = [
+  'event Swap(bytes32 indexed poolId, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut)',
+  'event PoolBalanceChanged(bytes32 indexed poolId, address indexed liquidityProvider, address[] tokens, int256[] deltas, uint256[] protocolFeeAmounts)'
+];
+
+const BALANCER_VAULT_ABI = [
+  'function getPoolTokens(bytes32 poolId) external view returns (address[] tokens, uint256[] balances, uint256 lastChangeBlock)'
+];
+
+const V3_FACTORY_ABI = [
+  'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)'
+];
+
+const ALGEBRA_FACTORY_ABI = [
+  'function poolByPair(address tokenA, address tokenB) external view returns (address pool)'
+];
+
+// Fee tiers UniswapV3Exchange quotes against when the config names none
+const DEFAULT_UNISWAP_V3_FEE_TIERS = [3000, 500];
+
+export interface TrackedPool {
+  type: 'v2' | 'v3';
+  address: string; // Lowercased
+  dex: string;
+  pairKey: string;
+}
+
+export interface PoolChanges {
+  pairs: Set<string>; // Pairs whose pools emitted any event
+  positionPools: Set<string>; // Uniswap V3 and Algebra pools with a Mint or Burn, so their tick liquidity moved
+}
+
+interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+// Tells the scanner which pairs' pools emitted a price-moving event since the last block. It holds
+// no pool state: the exchange adapters read what they quote from themselves, once per block.
+// Curve and Balancer pools hold several coins, so one of their events marks every tracked pair
+// among the pool's coins.
+export class PoolStateTracker {
+  private provider: ethers.providers.JsonRpcProvider;
+  private maxBlockRange: number;
+  private eventTopics: string[];
+  private positionTopics: string[];
+  private balancerEvents: ethers.utils.Interface;
+  private pools: Map<string, TrackedPool> = new Map();
+  private curvePools: Map<string, string[]> = new Map(); // Pool address -> lowercased coins
+  private balancerVault?: string; // Lowercased
+  private balancerPoolTokens: Map<string, string[]> = new Map(); // Pool id -> lowercased tokens
+  private pairTokens: Map<string, [string, string]> = new Map(); // Pair key -> lowercased token addresses
+  private trackedPairs: Set<string> = new Set();
+  private lastProcessedBlock: number = 0;
+  private stats = {
+    blocksProcessed: 0,
+    logsProcessed: 0,
+    resyncs: 0
+  };
+
+  constructor(provider: ethers.providers.JsonRpcProvider, maxBlockRange: number = 50) {
+    this.provider = provider;
+    this.maxBlockRange = maxBlockRange;
+
+    const eventsInterface = new ethers.utils.Interface(POOL_EVENTS_ABI);
+    const curveEvents = new ethers.utils.Interface(CURVE_POOL_EVENTS_ABI);
+    this.balancerEvents = new ethers.utils.Interface(BALANCER_VAULT_EVENTS_ABI);
+
+    this.eventTopics = [
+      ...['Sync', 'Swap', 'Mint', 'Burn'].map(name => eventsInterface.getEventTopic(name)),
+      ...Object.keys(curveEvents.events).map(name => curveEvents.getEventTopic(name)),
+      ...Object.keys(this.balancerEvents.events).map(name => this.balancerEvents.getEventTopic(name))
+    ];
+    this.positionTopics = ['Mint', 'Burn'].map(name => eventsInterface.getEventTopic(name));
+  }
+
+  async trackPairs(pairs: Array<{ tokenA: TokenInfo; tokenB: TokenInfo }>): Promise<void> {
+    const blockNumber = await this.provider.getBlockNumber();
+
+    const discovered = await Promise.all(pairs.map(({ tokenA, tokenB }) => this.discoverPools(tokenA, tokenB)));
+
+    discovered.flat().forEach(pool => this.pools.set(pool.address, pool));
+
+    // Curve and Balancer pools are matched to pairs through their coins, so every pair is tracked
+    pairs.forEach(({ tokenA, tokenB }) => {
+      const pairKey = getPairKey(tokenA, tokenB);
+      this.pairTokens.set(pairKey, [tokenA.address.toLowerCase(), tokenB.address.toLowerCase()]);
+      this.trackedPairs.add(pairKey);
+    });
+
+    await this.discoverMultiTokenPools();
+
+    this.lastProcessedBlock = blockNumber;
+
+    console.log(`Tracking ${this.pools.size + this.curvePools.size} pools${this.balancerVault ? ' and the Balancer Vault' : ''} across ${this.trackedPairs.size} pairs from block ${blockNumber}`);
+  }
+
+  // Pools that emitted an event since the last processed block
+  async processBlock(blockNumber: number): Promise<PoolChanges> {
+    const changes: PoolChanges = { pairs: new Set(), positionPools: new Set() };
+
+    if (this.trackedPairs.size === 0 || blockNumber <= this.lastProcessedBlock) {
+      return changes;
+    }
+
+    const fromBlock = this.lastProcessedBlock + 1;
+
+    // Too far behind to replay logs cheaply, treat every pool as changed instead
+    if (blockNumber - fromBlock + 1 > this.maxBlockRange) {
+      console.warn(`Pool events ${blockNumber - this.lastProcessedBlock} blocks behind, rescanning every pair`);
+      this.lastProcessedBlock = blockNumber;
+      this.stats.resyncs++;
+      return { pairs: new Set(this.trackedPairs), positionPools: new Set(this.getPositionPools()) };
+    }
+
+    // One eth_getLogs for every tracked pool; ethers v5 filters only accept a single address
+    const addresses = [...this.pools.keys(), ...this.curvePools.keys()];
+    if (this.balancerVault) {
+      addresses.push(this.balancerVault);
+    }
+
+    const logs: RawLog[] = await this.provider.send('eth_getLogs', [{
+      address: addresses,
+      fromBlock: ethers.utils.hexValue(fromBlock),
+      toBlock: ethers.utils.hexValue(blockNumber),
+      topics: [this.eventTopics]
+    }]);
+
+    const balancerLogs: RawLog[] = [];
+
+    for (const log of logs) {
+      const address = log.address.toLowerCase();
+      const pool = this.pools.get(address);
+      const curveCoins = this.curvePools.get(address);
+
+      if (pool) {
+        changes.pairs.add(pool.pairKey);
+        if (pool.type === 'v3' && this.positionTopics.includes(log.topics[0])) {
+          changes.positionPools.add(pool.address);
+        }
+      } else if (curveCoins) {
+        this.addPairsAmong(curveCoins, changes.pairs);
+      } else if (address === this.balancerVault) {
+        balancerLogs.push(log);
+      }
+    }
+
+    if (balancerLogs.length > 0) {
+      await this.addBalancerPairs(balancerLogs, changes.pairs);
+    }
+
+    this.lastProcessedBlock = blockNumber;
+    this.stats.blocksProcessed++;
+    this.stats.logsProcessed += logs.length;
+
+    return changes;
+  }
+
+  // A Vault log moves every pair of its pool. Swap only names the two tokens traded, so the
+  // pool's other tokens come from getPoolTokens, cached since a pool's tokens never change.
+  private async addBalancerPairs(logs: RawLog[], pairs: Set<string>): Promise<void> {
+    const trackedTokens = new Set(Array.from(this.pairTokens.values()).flat());
+    const swapTopic = this.balancerEvents.getEventTopic('Swap');
+
+    await Promise.all(logs.map(async log => {
+      const poolId = log.topics[1];
+
+      if (log.topics[0] === swapTopic) {
+        const traded = [log.topics[2], log.topics[3]].map(topic => ethers.utils.hexDataSlice(topic, 12).toLowerCase());
+        if (traded.some(token => trackedTokens.has(token))) {
+          this.addPairsAmong(await this.getBalancerPoolTokens(poolId, traded), pairs);
+        }
+      } else {
+        // PoolBalanceChanged lists every token of the pool
+        const { tokens } = this.balancerEvents.parseLog(log).args;
+        const poolTokens = tokens.map((token: string) => token.toLowerCase());
+        this.balancerPoolTokens.set(poolId, poolTokens);
+        this.addPairsAmong(poolTokens, pairs);
+      }
+    }));
+  }
+
+  private async getBalancerPoolTokens(poolId: string, fallback: string[]): Promise<string[]> {
+    const cached = this.balancerPoolTokens.get(poolId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const vault = new ethers.Contract(this.balancerVault!, BALANCER_VAULT_ABI, this.provider);
+      const { tokens } = await vault.getPoolTokens(poolId);
+      const poolTokens = tokens.map((token: string) => token.toLowerCase());
+      this.balancerPoolTokens.set(poolId, poolTokens);
+      return poolTokens;
+    } catch (error: any) {
+      console.warn(`Failed to load Balancer pool ${poolId} tokens:`, error.message || error);
+      return fallback;
+    }
+  }
+
+  private addPairsAmong(tokens: string[], pairs: Set<string>): void {
+    this.pairTokens.forEach(([tokenA, tokenB], pairKey) => {
+      if (tokens.includes(tokenA) && tokens.includes(tokenB)) {
+        pairs.add(pairKey);
+      }
+    });
+  }
+
+  getLastProcessedBlock(): number {
+    return this.lastProcessedBlock;
+  }
+
+  // Concentrated liquidity pools whose Mint and Burn events processBlock reports
+  getPositionPools(): string[] {
+    return Array.from(this.pools.values())
+      .filter(pool => pool.type === 'v3')
+      .map(pool => pool.address);
+  }
+
+  getStats(): {
+    trackedPools: number;
+    trackedPairs: number;
+    lastProcessedBlock: number;
+    blocksProcessed: number;
+    logsProcessed: number;
+    resyncs: number;
+  } {
+    return {
+      trackedPools: this.pools.size,
+      trackedPairs: this.trackedPairs.size,
+      lastProcessedBlock: this.lastProcessedBlock,
+      ...this.stats
+    };
+  }
+
+  private async discoverMultiTokenPools(): Promise<void> {
+    for (const exchange of Object.values(EXCHANGES)) {
+      if (!exchange.enabled) {
+        continue;
+      }
+
+      if (exchange.type === 'balancer') {
+        this.balancerVault = exchange.router.toLowerCase();
+      } else if (exchange.type === 'curve') {
+        const coins = await this.discoverCurveCoins(exchange.router);
+        if (coins.length > 0) {
+          this.curvePools.set(exchange.router.toLowerCase(), coins);
+        }
+      }
+    }
+  }
+
+  // underlying_coins reverts past the last coin
+  private async discoverCurveCoins(poolAddress: string): Promise<string[]> {
+    const pool = new ethers.Contract(poolAddress, CURVE_POOL_ABI, this.provider);
+    const coins: string[] = [];
+
+    for (let i = 0; i < MAX_CURVE_COINS; i++) {
+      try {
+        const coin: string = await pool.underlying_coins(i);
+        coins.push(coin.toLowerCase());
+      } catch (indexError) {
+        break;
+      }
+    }
+
+    if (coins.length === 0) {
+      console.warn(`Curve pool discovery failed for ${poolAddress}`);
+    }
+
+    return coins;
+  }
+
+  private async discoverPools(tokenA: TokenInfo, tokenB: TokenInfo): Promise<TrackedPool[]> {
+    const [token0, token1] = tokenA.address.toLowerCase() < tokenB.address.toLowerCase()
+      ? [tokenA, tokenB]
+      : [tokenB, tokenA];
+    const pairKey = getPairKey(token0, token1);
+    const pools: TrackedPool[] = [];
+
+    try {
+      for (const [dex, exchange] of Object.entries(EXCHANGES)) {
+        if (!exchange.enabled || !exchange.factory) {
+          continue;
+        }
+
+        if (exchange.type === 'uniswap-v2-fork') {
+          const factory = new ethers.Contract(exchange.factory, V2_FACTORY_ABI, this.provider);
+          const address: string = await factory.getPair(token0.address, token1.address);
+
+          if (address !== ethers.constants.AddressZero) {
+            pools.push({ type: 'v2', address: address.toLowerCase(), dex, pairKey });
+          }
+        } else if (exchange.type === 'uniswap-v3') {
+          const factory = new ethers.Contract(exchange.factory, V3_FACTORY_ABI, this.provider);
+
+          for (const fee of exchange.feeTiers ?? DEFAULT_UNISWAP_V3_FEE_TIERS) {
+            const address: string = await factory.getPool(token0.address, token1.address, fee);
+
+            if (address !== ethers.constants.AddressZero) {
+              pools.push({ type: 'v3', address: address.toLowerCase(), dex, pairKey });
+            }
+          }
+        } else if (exchange.type === 'algebra') {
+          const factory = new ethers.Contract(exchange.factory, ALGEBRA_FACTORY_ABI, this.provider);
+          const address: string = await factory.poolByPair(token0.address, token1.address);
+
+          if (address !== ethers.constants.AddressZero) {
+            pools.push({ type: 'v3', address: address.toLowerCase(), dex, pairKey });
+          }
+        }
+      }
+    } catch (error: any) {
+      console.warn(`Pool discovery failed for ${tokenA.symbol}/${tokenB.symbol}:`, error.message || error);
+    }
+
+    return pools;
+  }
+}
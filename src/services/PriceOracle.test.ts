@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { BigNumber, ethers } from 'ethers';
+import { BatchQuoteEngine } from './BatchQuoteEngine';
+import { PriceOracle } from './PriceOracle';
+import { QuoteResult, TokenInfo, TOKENS } from '../types';
+
+const { USDC, WMATIC } = TOKENS;
+
+// WMATIC quoted against USDC by one venue per entry in poolPrices
+function mockQuoteEngine(poolPrices: () => number[]): BatchQuoteEngine {
+  return {
+    getBatchQuotes: async (anchor: TokenInfo, token: TokenInfo, amountIn: BigNumber): Promise<QuoteResult[]> => {
+      const usd = parseFloat(ethers.utils.formatUnits(amountIn, anchor.decimals));
+
+      return poolPrices().map((price, i) => ({
+        dex: `venue${i}`,
+        amountIn,
+        amountOut: ethers.utils.parseUnits((usd / price).toFixed(token.decimals), token.decimals),
+        gasEstimate: BigNumber.from(150000),
+        priceImpact: 0
+      }));
+    }
+  } as unknown as BatchQuoteEngine;
+}
+
+describe('PriceOracle', () => {
+  let now: number;
+  let poolPrices: number[];
+  let oracle: PriceOracle;
+
+  const updateAt = async (seconds: number, prices: number[] = poolPrices) => {
+    now = seconds * 1000;
+    poolPrices = prices;
+    await oracle.update();
+  };
+
+  beforeEach(() => {
+    now = 0;
+    poolPrices = [0.5];
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    oracle = new PriceOracle(mockQuoteEngine(() => poolPrices), {
+      updateIntervalMs: 60000,
+      twapWindowMs: 600000,
+      staleAfterMs: 180000,
+      divergenceThresholdPercent: 2,
+      probeAmountUSD: 1000
+    }, [USDC, WMATIC]);
+  });
+
+  it('prices stablecoin anchors at $1', async () => {
+    await updateAt(0);
+    expect(oracle.getPrice(USDC)!.priceUSD).toBe(1);
+  });
+
+  it('weights each observation by how long it held', async () => {
+    await updateAt(0, [0.5]);
+    await updateAt(60, [0.6]);
+    await updateAt(120);
+
+    const price = oracle.getPrice(WMATIC)!;
+    expect(price.spotPriceUSD).toBeCloseTo(0.6, 9);
+    expect(price.priceUSD).toBeCloseTo(0.55, 9);
+    expect(price.isDivergent).toBe(true);
+  });
+
+  it('drops observations that fall out of the window', async () => {
+    await updateAt(0, [0.5]);
+    await updateAt(60, [0.6]);
+    await updateAt(120);
+    await updateAt(1200);
+
+    const price = oracle.getPrice(WMATIC)!;
+    expect(price.priceUSD).toBeCloseTo(0.6, 9);
+    expect(price.isDivergent).toBe(false);
+  });
+
+  it('takes the median across venues and flags a wide spread', async () => {
+    await updateAt(0, [0.5, 0.52, 0.7]);
+
+    const price = oracle.getPrice(WMATIC)!;
+    expect(price.spotPriceUSD).toBeCloseTo(0.52, 9);
+    expect(price.sampleCount).toBe(3);
+    expect(price.isDivergent).toBe(true);
+  });
+
+  it('flags prices that stopped updating and refreshes them on demand', async () => {
+    await updateAt(0, [0.5]);
+    now = 181000;
+    expect(oracle.getPrice(WMATIC)!.isStale).toBe(true);
+    expect(oracle.getMaticPriceUSD()).toBeUndefined();
+
+    // The new observation has not held for any time yet, so the TWAP is unchanged
+    poolPrices = [0.55];
+    expect(await oracle.getPriceUSD(WMATIC)).toBeCloseTo(0.5, 9);
+    expect(oracle.getPrice(WMATIC)!.spotPriceUSD).toBeCloseTo(0.55, 9);
+    expect(oracle.getPrice(WMATIC)!.isStale).toBe(false);
+  });
+
+  it('throws when no venue can price the token', async () => {
+    poolPrices = [];
+    await expect(oracle.getPriceUSD(WMATIC)).rejects.toThrow('No fresh USD price for WMATIC');
+  });
+});
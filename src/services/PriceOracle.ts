@@ -0,0 +1,251 @@
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import { BatchQuoteEngine } from './BatchQuoteEngine';
+import { PriceSource } from './TradeSizer';
+import { TokenInfo, TOKENS } from '../types';
+
+export interface PriceOracleConfig {
+  updateIntervalMs: number; // How often every token is re-quoted
+  twapWindowMs: number; // Window the reported price is averaged over
+  staleAfterMs: number; // Prices older than this are flagged stale
+  divergenceThresholdPercent: number; // Pool or TWAP spread that flags a price as divergent
+  probeAmountUSD: number; // Notional quoted against each anchor
+}
+
+export interface TokenPrice {
+  symbol: string;
+  priceUSD: number; // TWAP over the configured window
+  spotPriceUSD: number; // Median of the latest pool samples
+  sampleCount: number;
+  updatedAt: number;
+  isStale: boolean;
+  isDivergent: boolean;
+}
+
+interface PriceObservation {
+  price: number;
+  timestamp: number;
+}
+
+// Stablecoins that define $1; every other token is priced against them
+const STABLECOIN_ANCHORS = ['USDC', 'USDC.e', 'DAI', 'USDT'];
+
+export class PriceOracle extends EventEmitter implements PriceSource {
+  private batchQuoteEngine: BatchQuoteEngine;
+  private config: PriceOracleConfig;
+  private tokens: TokenInfo[];
+  private observations: Map<string, PriceObservation[]> = new Map();
+  private prices: Map<string, TokenPrice> = new Map();
+  private updateInterval?: ReturnType<typeof setInterval>;
+  private isUpdating: boolean = false;
+
+  constructor(
+    batchQuoteEngine: BatchQuoteEngine,
+    config: PriceOracleConfig = {
+      updateIntervalMs: 60000,
+      twapWindowMs: 600000, // 10 minutes
+      staleAfterMs: 180000, // 3 missed updates
+      divergenceThresholdPercent: 2,
+      probeAmountUSD: 1000
+    },
+    tokens: TokenInfo[] = Object.values(TOKENS)
+  ) {
+    super();
+    this.batchQuoteEngine = batchQuoteEngine;
+    this.config = config;
+    this.tokens = tokens;
+  }
+
+  async start(): Promise<void> {
+    if (this.updateInterval) {
+      return;
+    }
+
+    await this.update();
+
+    this.updateInterval = setInterval(() => {
+      this.update().catch(error => {
+        console.error('Price oracle update failed:', error);
+        this.emit('error', error);
+      });
+    }, this.config.updateIntervalMs);
+  }
+
+  stop(): void {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = undefined;
+    }
+  }
+
+  async update(): Promise<void> {
+    if (this.isUpdating) {
+      return;
+    }
+
+    this.isUpdating = true;
+    try {
+      await Promise.all(this.tokens.map(token => this.refreshToken(token)));
+      this.flagStalePrices();
+      this.emit('pricesUpdated', this.getAllPrices());
+    } finally {
+      this.isUpdating = false;
+    }
+  }
+
+  // PriceSource implementation used for trade sizing and risk checks
+  async getPriceUSD(token: TokenInfo): Promise<number> {
+    let price = this.getPrice(token);
+
+    if (!price || price.isStale) {
+      await this.refreshToken(token);
+      price = this.getPrice(token);
+    }
+
+    if (!price || price.isStale) {
+      throw new Error(`No fresh USD price for ${token.symbol}`);
+    }
+
+    return price.priceUSD;
+  }
+
+  getPrice(token: TokenInfo): TokenPrice | undefined {
+    const price = this.prices.get(this.getKey(token));
+    return price ? this.withStaleness(price) : undefined;
+  }
+
+  getAllPrices(): TokenPrice[] {
+    return Array.from(this.prices.values()).map(price => this.withStaleness(price));
+  }
+
+  // Synchronous MATIC price for gas and profit conversions, undefined until quoted
+  getMaticPriceUSD(): number | undefined {
+    const price = this.getPrice(TOKENS.WMATIC);
+    return price && !price.isStale ? price.priceUSD : undefined;
+  }
+
+  private async refreshToken(token: TokenInfo): Promise<void> {
+    const now = Date.now();
+
+    if (this.isAnchor(token)) {
+      this.recordPrice(token, 1, [1], now);
+      return;
+    }
+
+    const samples = await this.samplePoolPrices(token);
+    if (samples.length === 0) {
+      console.warn(`No pool prices available for ${token.symbol}`);
+      return;
+    }
+
+    this.recordPrice(token, this.median(samples), samples, now);
+  }
+
+  private async samplePoolPrices(token: TokenInfo): Promise<number[]> {
+    const anchors = this.tokens.filter(anchor => this.isAnchor(anchor));
+
+    // Every venue quoting against every anchor is an independent sample
+    const quoteSets = await Promise.all(anchors.map(async anchor => {
+      const amountIn = ethers.utils.parseUnits(this.config.probeAmountUSD.toString(), anchor.decimals);
+      const quotes = await this.batchQuoteEngine.getBatchQuotes(anchor, token, amountIn, 6000);
+
+      return quotes.map(quote => {
+        const tokensOut = parseFloat(ethers.utils.formatUnits(quote.amountOut, token.decimals));
+        return tokensOut > 0 ? this.config.probeAmountUSD / tokensOut : 0;
+      });
+    }));
+
+    return quoteSets.flat().filter(price => price > 0 && isFinite(price));
+  }
+
+  private recordPrice(token: TokenInfo, spotPrice: number, samples: number[], timestamp: number): void {
+    const key = this.getKey(token);
+
+    if (!this.observations.has(key)) {
+      this.observations.set(key, []);
+    }
+    const history = this.observations.get(key)!;
+    history.push({ price: spotPrice, timestamp });
+
+    // Keep only the observations the TWAP window needs, plus the one it opens on
+    const firstInWindow = history.findIndex(observation => observation.timestamp >= timestamp - this.config.twapWindowMs);
+    if (firstInWindow > 1) {
+      history.splice(0, firstInWindow - 1);
+    }
+
+    const twap = this.calculateTwap(history, timestamp);
+    const poolSpread = (Math.max(...samples) - Math.min(...samples)) / spotPrice * 100;
+    const twapDeviation = Math.abs(spotPrice - twap) / twap * 100;
+    const isDivergent = poolSpread > this.config.divergenceThresholdPercent ||
+      twapDeviation > this.config.divergenceThresholdPercent;
+
+    const price: TokenPrice = {
+      symbol: token.symbol,
+      priceUSD: twap,
+      spotPriceUSD: spotPrice,
+      sampleCount: samples.length,
+      updatedAt: timestamp,
+      isStale: false,
+      isDivergent
+    };
+
+    const previous = this.prices.get(key);
+    this.prices.set(key, price);
+
+    if (isDivergent && !previous?.isDivergent) {
+      console.warn(`Price divergence for ${token.symbol}: pools spread ${poolSpread.toFixed(2)}%, spot vs TWAP ${twapDeviation.toFixed(2)}%`);
+      this.emit('priceDivergent', { price, poolSpread, twapDeviation });
+    }
+  }
+
+  private calculateTwap(history: PriceObservation[], now: number): number {
+    const windowStart = now - this.config.twapWindowMs;
+    let weightedSum = 0;
+    let totalTime = 0;
+
+    // Each observation holds until the next one; the latest holds until now
+    for (let i = 0; i < history.length; i++) {
+      const start = Math.max(history[i].timestamp, windowStart);
+      const end = i + 1 < history.length ? history[i + 1].timestamp : now;
+      if (end <= start) {
+        continue;
+      }
+
+      weightedSum += history[i].price * (end - start);
+      totalTime += end - start;
+    }
+
+    return totalTime > 0 ? weightedSum / totalTime : history[history.length - 1].price;
+  }
+
+  private flagStalePrices(): void {
+    const now = Date.now();
+
+    this.prices.forEach(price => {
+      const isStale = now - price.updatedAt > this.config.staleAfterMs;
+      if (isStale && !price.isStale) {
+        console.warn(`Price for ${price.symbol} is stale (last update ${Math.round((now - price.updatedAt) / 1000)}s ago)`);
+        this.emit('priceStale', price);
+      }
+      price.isStale = isStale;
+    });
+  }
+
+  private withStaleness(price: TokenPrice): TokenPrice {
+    return { ...price, isStale: Date.now() - price.updatedAt > this.config.staleAfterMs };
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private isAnchor(token: TokenInfo): boolean {
+    return STABLECOIN_ANCHORS.includes(token.symbol);
+  }
+
+  private getKey(token: TokenInfo): string {
+    return token.address.toLowerCase();
+  }
+}
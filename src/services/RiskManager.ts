@@ -1,5 +1,8 @@
-import { BigNumber, ethers } from 'ethers';
+import { ethers } from 'ethers';
 import { ArbitrageOpportunity, TradeResult } from '../types';
+import { TradeSizer } from './TradeSizer';
+import { PriceOracle } from './PriceOracle';
+import { FlashLoanSelector } from './FlashLoanSelector';
 import { EventEmitter } from 'events';
 
 export interface RiskLimits {
@@ -41,6 +44,9 @@ export class RiskManager extends EventEmitter {
   private portfolioStartValue: number;
   private dailyStartValue: number;
   private dailyResetTime: number;
+  private priceOracle?: PriceOracle;
+  private tradeSizer?: TradeSizer;
+  private flashLoanSelector?: FlashLoanSelector;
 
   constructor(limits: RiskLimits, initialPortfolioValue: number) {
     super();
@@ -95,8 +101,11 @@ export class RiskManager extends EventEmitter {
       }
     }
 
+    // Position size in USD, null if the trade token cannot be priced
+    const positionSizeUSD = await this.getPositionSizeUSD(opportunity);
+
     // Calculate risk score for this opportunity
-    const opportunityRisk = this.calculateOpportunityRisk(opportunity);
+    const opportunityRisk = this.calculateOpportunityRisk(opportunity, positionSizeUSD);
 
     // Check individual risk limits
     const riskChecks = await Promise.all([
@@ -104,10 +113,11 @@ export class RiskManager extends EventEmitter {
       this.checkConsecutiveLossLimit(),
       this.checkVolatilityLimit(opportunity),
       this.checkSlippageLimit(opportunity),
-      this.checkPositionSizeLimit(opportunity),
+      this.checkPositionSizeLimit(positionSizeUSD),
       this.checkDrawdownLimit(),
       this.checkTradeFrequencyLimit(),
-      this.checkGasThreshold()
+      this.checkGasThreshold(),
+      this.checkFlashLoanLiquidity(opportunity)
     ]);
 
     const failedChecks = riskChecks.filter(check => !check.passed);
@@ -142,7 +152,20 @@ export class RiskManager extends EventEmitter {
     };
   }
 
-  private calculateOpportunityRisk(opportunity: ArbitrageOpportunity): number {
+  private async getPositionSizeUSD(opportunity: ArbitrageOpportunity): Promise<number | null> {
+    if (!this.tradeSizer) {
+      return null;
+    }
+
+    try {
+      return await this.tradeSizer.toUSD(opportunity.tokenA, opportunity.amountIn);
+    } catch (error) {
+      console.warn(`Failed to price ${opportunity.tokenA.symbol} position:`, error);
+      return null;
+    }
+  }
+
+  private calculateOpportunityRisk(opportunity: ArbitrageOpportunity, positionSizeUSD: number | null): number {
     let riskScore = 0;
 
     // Profit percentage risk (too good to be true)
@@ -152,9 +175,10 @@ export class RiskManager extends EventEmitter {
       riskScore += 20; // Very low profit margin
     }
 
-    // Position size risk
-    const positionSize = parseFloat(ethers.utils.formatEther(opportunity.amountIn));
-    const positionPercent = (positionSize / this.metrics.portfolioValue) * 100;
+    // Position size risk (an unpriced position counts as close to the limit)
+    const positionPercent = positionSizeUSD === null
+      ? Infinity
+      : (positionSizeUSD / this.metrics.portfolioValue) * 100;
     
     if (positionPercent > this.limits.positionSizeLimit * 0.8) {
       riskScore += 25; // Close to position limit
@@ -177,6 +201,11 @@ export class RiskManager extends EventEmitter {
     // Current drawdown impact
     riskScore += this.metrics.currentDrawdown * 2;
 
+    // Pools disagree or the price is moving fast, so quotes are less reliable
+    if (this.priceOracle?.getPrice(opportunity.tokenA)?.isDivergent) {
+      riskScore += 10;
+    }
+
     return Math.min(riskScore, 100);
   }
 
@@ -214,9 +243,16 @@ export class RiskManager extends EventEmitter {
     };
   }
 
-  private checkPositionSizeLimit(opportunity: ArbitrageOpportunity): { passed: boolean; reason: string; critical: boolean } {
-    const positionSize = parseFloat(ethers.utils.formatEther(opportunity.amountIn));
-    const positionPercent = (positionSize / this.metrics.portfolioValue) * 100;
+  private checkPositionSizeLimit(positionSizeUSD: number | null): { passed: boolean; reason: string; critical: boolean } {
+    if (positionSizeUSD === null) {
+      return {
+        passed: false,
+        reason: 'Position size could not be priced in USD',
+        critical: false
+      };
+    }
+
+    const positionPercent = (positionSizeUSD / this.metrics.portfolioValue) * 100;
     
     return {
       passed: positionPercent <= this.limits.positionSizeLimit,
@@ -252,6 +288,33 @@ export class RiskManager extends EventEmitter {
     };
   }
 
+  // A loan larger than the provider holds reverts inside flashLoan, after gas is spent
+  private async checkFlashLoanLiquidity(opportunity: ArbitrageOpportunity): Promise<{ passed: boolean; reason: string; critical: boolean }> {
+    const provider = opportunity.flashLoanProvider;
+    if (!provider || !this.flashLoanSelector) {
+      return { passed: true, reason: '', critical: false };
+    }
+
+    const { tokenA, amountIn } = opportunity;
+
+    try {
+      const liquidity = await this.flashLoanSelector.getLiquidity(provider, tokenA);
+      const available = liquidity ? ethers.utils.formatUnits(liquidity, tokenA.decimals) : '0';
+
+      return {
+        passed: !!liquidity && liquidity.gte(amountIn),
+        reason: `Insufficient ${provider} flash loan liquidity: ${available} < ${ethers.utils.formatUnits(amountIn, tokenA.decimals)} ${tokenA.symbol}`,
+        critical: false
+      };
+    } catch (error: any) {
+      return {
+        passed: false,
+        reason: `Flash loan liquidity could not be checked: ${error.message || error}`,
+        critical: false
+      };
+    }
+  }
+
   async recordTrade(trade: TradeResult): Promise<void> {
     this.tradeHistory.push(trade);
     
@@ -471,6 +534,15 @@ export class RiskManager extends EventEmitter {
   }
 
   // Configuration updates
+  setPriceOracle(priceOracle: PriceOracle): void {
+    this.priceOracle = priceOracle;
+    this.tradeSizer = new TradeSizer(priceOracle);
+  }
+
+  setFlashLoanSelector(flashLoanSelector: FlashLoanSelector): void {
+    this.flashLoanSelector = flashLoanSelector;
+  }
+
   updateLimits(newLimits: Partial<RiskLimits>): void {
     this.limits = { ...this.limits, ...newLimits };
     this.emit('limitsUpdated', this.limits);
@@ -1,7 +1,7 @@
 import { Telegraf, Context } from 'telegraf';
 import { ArbitrageEngine } from './ArbitrageEngine';
-import { TradeResult, ArbitrageOpportunity } from '../types';
-import { ethers } from 'ethers';
+import { TradeResult, ArbitrageOpportunity, isMultiLegOpportunity } from '../types';
+import { ethers, BigNumber } from 'ethers';
 
 interface TelegramConfig {
   botToken: string;
@@ -34,6 +34,7 @@ export class TelegramBot {
     { command: 'status', description: 'Show bot status and performance metrics', adminOnly: false },
     { command: 'balance', description: 'Show wallet balance', adminOnly: true },
     { command: 'opportunities', description: 'Show current arbitrage opportunities', adminOnly: false },
+    { command: 'prices', description: 'Show on-chain token prices', adminOnly: false },
     { command: 'history', description: 'Show recent trade history', adminOnly: false },
     { command: 'settings', description: 'Show current bot settings', adminOnly: true },
     { command: 'emergency_stop', description: '🛑 Emergency stop all trading', adminOnly: true },
@@ -130,6 +131,15 @@ Use /help for detailed command information.
       }
     });
 
+    this.bot.command('prices', async (ctx) => {
+      try {
+        const message = this.formatPrices();
+        await ctx.reply(message, { parse_mode: 'Markdown' });
+      } catch (error) {
+        await ctx.reply('❌ Failed to get price data.');
+      }
+    });
+
     this.bot.command('history', async (ctx) => {
       try {
         // This would get actual trade history from the performance tracker
@@ -276,9 +286,9 @@ For technical issues, check the logs or contact support.
     this.arbitrageEngine.on('opportunities', (opportunities: ArbitrageOpportunity[]) => {
       if (this.config.enableAlerts && opportunities.length > 0) {
         const bestOpportunity = opportunities[0];
-        const profitUSD = parseFloat(ethers.utils.formatEther(bestOpportunity.netProfit)) * 0.5; // Rough USD conversion
+        const profitUSD = this.maticWeiToUSD(bestOpportunity.netProfit);
         
-        if (profitUSD >= this.config.alertThresholds.minProfitUSD) {
+        if (profitUSD !== undefined && profitUSD >= this.config.alertThresholds.minProfitUSD) {
           this.sendOpportunityAlert(bestOpportunity);
         }
       }
@@ -306,7 +316,9 @@ For technical issues, check the logs or contact support.
       await this.bot.launch();
       this.isActive = true;
       console.log('Telegram bot started successfully');
-      await this.sendAlert('🤖 Bot started and monitoring');
+      await this.sendAlert(this.arbitrageEngine.isDryRun()
+        ? '🤖 Bot started in 📝 DRY RUN mode - trades are simulated, nothing is broadcast'
+        : '🤖 Bot started and monitoring');
     } catch (error) {
       console.error('Failed to start Telegram bot:', error);
       throw error;
@@ -324,9 +336,10 @@ For technical issues, check the logs or contact support.
   async sendTradeAlert(trade: TradeResult): Promise<void> {
     const emoji = trade.successful ? (trade.netProfit > 0 ? '🟢' : '🔴') : '❌';
     const profitPercent = trade.amount > 0 ? (trade.profit / trade.amount * 100).toFixed(2) : '0.00';
+    const label = trade.simulated ? '📝 Paper Trade' : 'Trade';
     
     const message = `
-${emoji} *Trade ${trade.successful ? 'Executed' : 'Failed'}*
+${emoji} *${label} ${trade.successful ? (trade.simulated ? 'Simulated' : 'Executed') : 'Failed'}*
 
 🔄 *Pair:* ${trade.tokenA}/${trade.tokenB}
 💰 *Amount:* ${trade.amount.toFixed(2)}
@@ -336,22 +349,20 @@ ${emoji} *Trade ${trade.successful ? 'Executed' : 'Failed'}*
 🏪 *Route:* ${trade.sourceDEX} → ${trade.targetDEX}
 ⏱️ *Execution:* ${trade.executionTime}ms
 🕐 *Time:* ${trade.timestamp.toLocaleString()}
-${trade.txHash ? `🔗 *Tx:* \`${trade.txHash}\`` : ''}
+${trade.txHash ? `🔗 *Tx:* \`${trade.txHash}\`` : ''}${trade.simulated ? '⚠️ *Dry run - not broadcast on-chain*' : ''}
     `;
 
     await this.sendMessage(message);
   }
 
   private async sendOpportunityAlert(opportunity: ArbitrageOpportunity): Promise<void> {
-    const profitUSD = parseFloat(ethers.utils.formatEther(opportunity.netProfit)) * 0.5; // Rough conversion
-    
     const message = `
 🎯 *Arbitrage Opportunity*
 
 🔄 *Pair:* ${opportunity.tokenA.symbol}/${opportunity.tokenB.symbol}
-💰 *Amount:* ${ethers.utils.formatEther(opportunity.amountIn)}
-📊 *Profit:* ${opportunity.profitPercent.toFixed(2)}% (~$${profitUSD.toFixed(2)})
-🏪 *Route:* ${opportunity.buyDex} → ${opportunity.sellDex}
+💰 *Amount:* ${ethers.utils.formatUnits(opportunity.amountIn, opportunity.tokenA.decimals)} ${opportunity.tokenA.symbol}
+📊 *Profit:* ${opportunity.profitPercent.toFixed(2)}% (${this.formatUSD(this.maticWeiToUSD(opportunity.netProfit))})
+🏪 *Route:* ${this.formatRoute(opportunity)}
 ⛽ *Est. Gas:* ${opportunity.gasEstimate.toString()}
 
 ⚡ *Evaluating execution...*
@@ -362,7 +373,7 @@ ${trade.txHash ? `🔗 *Tx:* \`${trade.txHash}\`` : ''}
 
   private async sendTradeFailureAlert(trade: TradeResult, error: any): Promise<void> {
     const message = `
-❌ *Trade Failed*
+❌ *${trade.simulated ? '📝 Paper Trade' : 'Trade'} Failed*
 
 🔄 *Pair:* ${trade.tokenA}/${trade.tokenB}
 💰 *Amount:* ${trade.amount.toFixed(2)}
@@ -413,6 +424,7 @@ ${trade.txHash ? `🔗 *Tx:* \`${trade.txHash}\`` : ''}
 📊 *Bot Status*
 
 🤖 *Engine:* ${stats.isRunning ? '🟢 Active' : '🔴 Stopped'}
+🧪 *Mode:* ${stats.dryRun ? '📝 Dry run (paper trading)' : '💸 Live'}
 📈 *Opportunities Found:* ${stats.totalOpportunities}
 🔍 *Last Scan:* ${new Date(stats.lastScanTimestamp).toLocaleString()}
 ⏰ *Uptime:* ${uptime}
@@ -420,6 +432,8 @@ ${trade.txHash ? `🔗 *Tx:* \`${trade.txHash}\`` : ''}
 💹 *Performance:*
 • Total Scans: ${stats.totalScans}
 • Avg Opportunities/Scan: ${stats.averageOpportunitiesPerScan.toFixed(1)}
+• Scan Trigger: ${stats.blockSource}${stats.lastScannedBlock ? ` (block ${stats.lastScannedBlock})` : ''}
+• Blocks Skipped: ${stats.blocksSkipped}
 
 🔧 *System:*
 • Telegram: ✅ Connected
@@ -436,15 +450,56 @@ ${trade.txHash ? `🔗 *Tx:* \`${trade.txHash}\`` : ''}
     let message = '📊 *Top Opportunities*\n\n';
     
     opportunities.slice(0, 3).forEach((op, index) => {
-      const profitUSD = parseFloat(ethers.utils.formatEther(op.netProfit)) * 0.5;
       message += `${index + 1}. *${op.tokenA.symbol}/${op.tokenB.symbol}*\n`;
-      message += `   💰 ${op.profitPercent.toFixed(2)}% (~$${profitUSD.toFixed(2)})\n`;
-      message += `   🏪 ${op.buyDex} → ${op.sellDex}\n\n`;
+      message += `   💰 ${op.profitPercent.toFixed(2)}% (${this.formatUSD(this.maticWeiToUSD(op.netProfit))})\n`;
+      message += `   🏪 ${this.formatRoute(op)}\n\n`;
     });
 
     return message;
   }
 
+  private formatPrices(): string {
+    const prices = this.arbitrageEngine.getPriceOracle().getAllPrices();
+    if (prices.length === 0) {
+      return '💲 *Token Prices*\n\nNo prices yet, the oracle has not completed an update.';
+    }
+
+    let message = '💲 *Token Prices* (TWAP)\n\n';
+
+    prices.forEach(price => {
+      const flags = [
+        price.isStale ? '⚠️ stale' : '',
+        price.isDivergent ? '⚠️ divergent' : ''
+      ].filter(Boolean).join(' ');
+
+      message += `• *${price.symbol}:* $${price.priceUSD.toFixed(4)} (spot $${price.spotPriceUSD.toFixed(4)}, ${price.sampleCount} pools) ${flags}\n`;
+    });
+
+    return message;
+  }
+
+  // Opportunity profits are MATIC wei; undefined while the oracle has no fresh MATIC price
+  private maticWeiToUSD(amount: BigNumber): number | undefined {
+    const maticPrice = this.arbitrageEngine.getPriceOracle().getMaticPriceUSD();
+    if (maticPrice === undefined) {
+      return undefined;
+    }
+    return parseFloat(ethers.utils.formatEther(amount)) * maticPrice;
+  }
+
+  private formatUSD(amountUSD: number | undefined): string {
+    return amountUSD === undefined ? 'USD price unavailable' : `~$${amountUSD.toFixed(2)}`;
+  }
+
+  private formatRoute(opportunity: ArbitrageOpportunity): string {
+    if (isMultiLegOpportunity(opportunity)) {
+      const legs = opportunity.legs.map(leg => `${leg.tokenOut.symbol} (${leg.dex})`);
+      return [opportunity.tokenA.symbol, ...legs].join(' → ');
+    }
+
+    return `${opportunity.buyDex} → ${opportunity.sellDex}`;
+  }
+
   private async getWalletBalance(): Promise<string> {
     // This would integrate with actual wallet balance checking
     return `
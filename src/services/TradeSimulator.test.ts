@@ -0,0 +1,76 @@
+import { describe, expect, it } from '@jest/globals';
+import { BigNumber, ethers } from 'ethers';
+import { TradeSimulator } from './TradeSimulator';
+import { getFlashArbitrageBotInterface } from '../contracts/FlashArbitrageBotClient';
+
+const contractInterface = getFlashArbitrageBotInterface();
+const transaction: ethers.PopulatedTransaction = { to: ethers.constants.AddressZero, data: '0x' };
+
+// Provider whose eth_call either returns data or throws the given error
+function mockProvider(call: () => Promise<string>): ethers.providers.Provider {
+  return {
+    getBlockNumber: async () => 1000,
+    call,
+    estimateGas: async () => BigNumber.from(420000)
+  } as unknown as ethers.providers.Provider;
+}
+
+function revertWith(data: string) {
+  return async (): Promise<string> => {
+    // ethers v5 JSON-RPC providers nest the payload under error.error
+    throw Object.assign(new Error('execution reverted'), { error: { code: -32000, data } });
+  };
+}
+
+describe('TradeSimulator', () => {
+  it('returns the simulated profit and gas of a successful call', async () => {
+    const returnData = contractInterface.encodeFunctionResult('executeArbitrage', [12345]);
+    const result = await new TradeSimulator(mockProvider(async () => returnData), contractInterface).simulate(transaction);
+
+    expect(result.success).toBe(true);
+    expect(result.blockNumber).toBe(1000);
+    expect(result.simulatedProfit.toNumber()).toBe(12345);
+    expect(result.gasUsed.toNumber()).toBe(420000);
+  });
+
+  it('decodes the contract\'s custom errors', async () => {
+    const data = contractInterface.encodeErrorResult('InsufficientProfit', []);
+    const result = await new TradeSimulator(mockProvider(revertWith(data)), contractInterface).simulate(transaction);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('InsufficientProfit');
+  });
+
+  it('decodes custom errors with arguments', async () => {
+    const data = contractInterface.encodeErrorResult('UnapprovedTarget', [ethers.constants.AddressZero]);
+    const result = await new TradeSimulator(mockProvider(revertWith(data)), contractInterface).simulate(transaction);
+
+    expect(result.error).toBe('UnapprovedTarget');
+  });
+
+  it('decodes Error(string) reverts from routers and pools', async () => {
+    const data = '0x08c379a0' + ethers.utils.defaultAbiCoder.encode(['string'], ['UniswapV2: K']).slice(2);
+    const result = await new TradeSimulator(mockProvider(revertWith(data)), contractInterface).simulate(transaction);
+
+    expect(result.error).toBe('Reverted');
+    expect(result.revertReason).toBe('UniswapV2: K');
+  });
+
+  it('decodes revert data the provider returns instead of throwing', async () => {
+    const data = contractInterface.encodeErrorResult('SlippageExceeded', []);
+    const result = await new TradeSimulator(mockProvider(async () => data), contractInterface).simulate(transaction);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('SlippageExceeded');
+  });
+
+  it('falls back to the error message when there is no revert data', async () => {
+    const provider = mockProvider(async () => {
+      throw new Error('header not found');
+    });
+    const result = await new TradeSimulator(provider, contractInterface).simulate(transaction);
+
+    expect(result.error).toBe('Reverted');
+    expect(result.revertReason).toBe('header not found');
+  });
+});
@@ -0,0 +1,102 @@
+import { ethers, BigNumber } from 'ethers';
+import { decodeContractError } from '../contracts/FlashArbitrageBotClient';
+
+export type SimulationError =
+  | 'InsufficientProfit'
+  | 'SlippageExceeded'
+  | 'UnauthorizedCaller'
+  | 'InvalidTradeSize'
+  | 'FlashLoanFailed'
+  | 'UnsupportedCurveCoin'
+  | 'InvalidRoute'
+  | 'UnapprovedTarget'
+  | 'UnsupportedExchange'
+  | 'Reverted';
+
+export interface SimulationResult {
+  success: boolean;
+  blockNumber: number;
+  simulatedProfit: BigNumber;
+  gasUsed: BigNumber;
+  error?: SimulationError;
+  revertReason?: string;
+}
+
+export class TradeSimulator {
+  private provider: ethers.providers.Provider;
+  private contractInterface: ethers.utils.Interface;
+
+  constructor(
+    provider: ethers.providers.Provider,
+    contractInterface: ethers.utils.Interface
+  ) {
+    this.provider = provider;
+    this.contractInterface = contractInterface;
+  }
+
+  async simulate(
+    transaction: ethers.PopulatedTransaction,
+    functionName: string = 'executeArbitrage'
+  ): Promise<SimulationResult> {
+    const blockNumber = await this.provider.getBlockNumber();
+
+    try {
+      // Reverts surface either as a thrown error or as revert data that fails to decode
+      const returnData = await this.provider.call(transaction, blockNumber);
+      const [simulatedProfit] = this.contractInterface.decodeFunctionResult(functionName, returnData);
+      const gasUsed = await this.provider.estimateGas(transaction);
+
+      return {
+        success: true,
+        blockNumber,
+        simulatedProfit,
+        gasUsed
+      };
+    } catch (error: any) {
+      const { name, reason } = this.decodeRevert(error);
+
+      return {
+        success: false,
+        blockNumber,
+        simulatedProfit: BigNumber.from(0),
+        gasUsed: BigNumber.from(0),
+        error: name,
+        revertReason: reason
+      };
+    }
+  }
+
+  private decodeRevert(error: any): { name: SimulationError; reason?: string } {
+    const revertData = this.extractRevertData(error);
+
+    if (revertData && revertData !== '0x') {
+      const contractError = decodeContractError(revertData);
+      if (contractError) {
+        return { name: contractError.name as SimulationError };
+      }
+
+      try {
+        if (revertData.startsWith('0x08c379a0')) {
+          const [reason] = ethers.utils.defaultAbiCoder.decode(['string'], '0x' + revertData.slice(10));
+          return { name: 'Reverted', reason };
+        }
+      } catch (decodeError) {
+        // Malformed revert payload
+      }
+    }
+
+    return { name: 'Reverted', reason: error.reason || error.message || 'Unknown error' };
+  }
+
+  private extractRevertData(error: any): string | undefined {
+    // Providers nest the revert payload at different depths
+    let current = error;
+    for (let depth = 0; current && depth < 4; depth++) {
+      if (typeof current.data === 'string' && current.data.startsWith('0x')) {
+        return current.data;
+      }
+      current = current.error;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from '@jest/globals';
+import { BigNumber, ethers } from 'ethers';
+import { TradeSizeOptimizer } from './TradeSizeOptimizer';
+
+const units = (amount: number | string) => ethers.utils.parseUnits(amount.toString(), 18);
+
+// 0.3% constant-product swap
+function getAmountOut(amountIn: BigNumber, reserveIn: BigNumber, reserveOut: BigNumber): BigNumber {
+  const amountInWithFee = amountIn.mul(997);
+  return amountInWithFee.mul(reserveOut).div(reserveIn.mul(1000).add(amountInWithFee));
+}
+
+// Buy on a pair priced 2% below another, sell back into it: profit rises, peaks and falls with size
+async function roundTripProfit(amountIn: BigNumber): Promise<BigNumber> {
+  const bought = getAmountOut(amountIn, units(1000000), units(1020000));
+  const sold = getAmountOut(bought, units(1000000), units(1000000));
+  return sold.sub(amountIn);
+}
+
+describe('TradeSizeOptimizer', () => {
+  it('lands near the most profitable size', async () => {
+    const optimizer = new TradeSizeOptimizer({ iterations: 12, minAmountFraction: 0.001 });
+    const result = await optimizer.optimize(roundTripProfit, units(50000));
+
+    // Best of a 100-point grid over the same range
+    let gridBest = BigNumber.from(0);
+    for (let step = 1; step <= 100; step++) {
+      const profit = await roundTripProfit(units(500 * step));
+      gridBest = profit.gt(gridBest) ? profit : gridBest;
+    }
+
+    expect(result).not.toBeNull();
+    expect(result!.profit.gte(gridBest.mul(99).div(100))).toBe(true);
+  });
+
+  it('records one curve point per quote, sorted by size', async () => {
+    const sizes: string[] = [];
+    const optimizer = new TradeSizeOptimizer({ iterations: 6, minAmountFraction: 0.01 });
+    const result = await optimizer.optimize(async amountIn => {
+      sizes.push(amountIn.toString());
+      return roundTripProfit(amountIn);
+    }, units(50000));
+
+    expect(result!.profitCurve).toHaveLength(8);
+    expect(new Set(sizes).size).toBe(sizes.length);
+    const amounts = result!.profitCurve.map(point => point.amountIn);
+    expect(amounts.every((amount, i) => i === 0 || amount.gt(amounts[i - 1]))).toBe(true);
+  });
+
+  it('searches past sizes that could not be quoted', async () => {
+    const optimizer = new TradeSizeOptimizer({ iterations: 8, minAmountFraction: 0.01 });
+    const result = await optimizer.optimize(
+      async amountIn => (amountIn.gt(units(30000)) ? null : roundTripProfit(amountIn)),
+      units(50000)
+    );
+
+    expect(result!.amountIn.lte(units(30000))).toBe(true);
+    expect(result!.profit.gt(0)).toBe(true);
+  });
+
+  it('returns null when nothing can be quoted or the range is empty', async () => {
+    const optimizer = new TradeSizeOptimizer();
+    expect(await optimizer.optimize(async () => null, units(50000))).toBeNull();
+    expect(await optimizer.optimize(roundTripProfit, BigNumber.from(10))).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { BigNumber } from 'ethers';
+import { ProfitCurvePoint } from '../types';
+
+// Round-trip profit in input-token units for a given input amount, null if it could not be quoted
+export type ProfitEvaluator = (amountIn: BigNumber) => Promise<BigNumber | null>;
+
+export interface TradeSizeOptimizerConfig {
+  iterations: number; // Golden-section steps, one quote round-trip each
+  minAmountFraction: number; // Lower search bound as a fraction of the upper bound
+}
+
+export interface TradeSizeResult {
+  amountIn: BigNumber;
+  profit: BigNumber;
+  profitCurve: ProfitCurvePoint[];
+}
+
+const INVERSE_GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+const FRACTION_PRECISION = 1000000;
+
+export class TradeSizeOptimizer {
+  private config: TradeSizeOptimizerConfig;
+
+  constructor(config: TradeSizeOptimizerConfig = { iterations: 8, minAmountFraction: 0.01 }) {
+    this.config = config;
+  }
+
+  async optimize(evaluate: ProfitEvaluator, maxAmount: BigNumber): Promise<TradeSizeResult | null> {
+    const minAmount = this.scale(maxAmount, this.config.minAmountFraction);
+    if (minAmount.isZero() || maxAmount.lte(minAmount)) {
+      return null;
+    }
+
+    const curve: Map<string, ProfitCurvePoint> = new Map();
+    const profitAt = async (fraction: number): Promise<BigNumber | null> => {
+      const amountIn = minAmount.add(this.scale(maxAmount.sub(minAmount), fraction));
+      const key = amountIn.toString();
+
+      if (!curve.has(key)) {
+        const profit = await evaluate(amountIn);
+        if (!profit) {
+          return null;
+        }
+        curve.set(key, { amountIn, profit });
+      }
+
+      return curve.get(key)!.profit;
+    };
+
+    // Price impact makes round-trip profit concave in size, so golden-section
+    // search narrows in on the peak with a single new quote per step
+    let low = 0;
+    let high = 1;
+    let left = high - INVERSE_GOLDEN_RATIO * (high - low);
+    let right = low + INVERSE_GOLDEN_RATIO * (high - low);
+    let leftProfit = await profitAt(left);
+    let rightProfit = await profitAt(right);
+
+    for (let i = 0; i < this.config.iterations; i++) {
+      if (this.isBetter(leftProfit, rightProfit)) {
+        high = right;
+        right = left;
+        rightProfit = leftProfit;
+        left = high - INVERSE_GOLDEN_RATIO * (high - low);
+        leftProfit = await profitAt(left);
+      } else {
+        low = left;
+        left = right;
+        leftProfit = rightProfit;
+        right = low + INVERSE_GOLDEN_RATIO * (high - low);
+        rightProfit = await profitAt(right);
+      }
+    }
+
+    const profitCurve = Array.from(curve.values()).sort((a, b) => a.amountIn.lt(b.amountIn) ? -1 : 1);
+    if (profitCurve.length === 0) {
+      return null;
+    }
+
+    const best = profitCurve.reduce((top, point) => point.profit.gt(top.profit) ? point : top);
+
+    return {
+      amountIn: best.amountIn,
+      profit: best.profit,
+      profitCurve
+    };
+  }
+
+  private isBetter(a: BigNumber | null, b: BigNumber | null): boolean {
+    if (!a) {
+      return false;
+    }
+    return !b || a.gt(b);
+  }
+
+  private scale(amount: BigNumber, fraction: number): BigNumber {
+    return amount.mul(Math.round(fraction * FRACTION_PRECISION)).div(FRACTION_PRECISION);
+  }
+}
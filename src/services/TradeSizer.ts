@@ -0,0 +1,27 @@
+import { ethers, BigNumber } from 'ethers';
+import { TokenInfo } from '../types';
+
+export interface PriceSource {
+  getPriceUSD(token: TokenInfo): Promise<number>;
+}
+
+export class TradeSizer {
+  private priceSource: PriceSource;
+
+  constructor(priceSource: PriceSource) {
+    this.priceSource = priceSource;
+  }
+
+  // Raw token amount, in the token's own decimals, worth amountUSD
+  async toTokenAmount(token: TokenInfo, amountUSD: number): Promise<BigNumber> {
+    const price = await this.priceSource.getPriceUSD(token);
+    const amount = amountUSD / price;
+
+    return ethers.utils.parseUnits(amount.toFixed(token.decimals), token.decimals);
+  }
+
+  async toUSD(token: TokenInfo, amount: BigNumber): Promise<number> {
+    const price = await this.priceSource.getPriceUSD(token);
+    return parseFloat(ethers.utils.formatUnits(amount, token.decimals)) * price;
+  }
+}
@@ -14,6 +14,9 @@ export interface QuoteResult {
   gasEstimate: BigNumber;
   priceImpact: number;
   route?: string[];
+  fee?: number; // Pool fee in hundredths of a bip: the tier, or the dynamic fee on Algebra pools
+  blockNumber?: number; // Block the quote's pool state was read at
+  poolId?: string; // Pool the quote was priced on, for venues with several pools per pair
 }
 
 export interface ArbitrageOpportunity {
@@ -28,14 +31,56 @@ export interface ArbitrageOpportunity {
   profitPercent: number;
   gasEstimate: BigNumber;
   netProfit: BigNumber;
+  buyFee?: number; // Fee tier of the buy leg, if applicable
+  sellFee?: number; // Fee tier of the sell leg, if applicable
+  buyPoolId?: string; // Pool of the buy leg, for venues with several pools per pair
+  sellPoolId?: string; // Pool of the sell leg, for venues with several pools per pair
+  buyAmountOut?: BigNumber; // tokenB expected from the buy leg
+  sellAmountOut?: BigNumber; // tokenA expected back from the sell leg
+  profitCurve?: ProfitCurvePoint[]; // Round-trip profit sampled while sizing the trade
+  blockNumber?: number; // Block every leg was quoted at
+  flashLoanProvider?: FlashLoanProvider; // Source of the borrowed tokenA; unset when nothing is borrowed
+  flashLoanFee?: BigNumber; // Flash loan fee on amountIn, in tokenA units
+}
+
+// Flash loan sources FlashArbitrageBot can borrow from
+export type FlashLoanProvider = 'balancer' | 'aave';
+
+export interface ProfitCurvePoint {
+  amountIn: BigNumber;
+  profit: BigNumber; // Round-trip profit before gas, in tokenA units
+}
+
+export interface RouteLeg {
+  dex: string;
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+  amountIn: BigNumber;
+  expectedAmountOut: BigNumber;
+  fee?: number; // Pool fee tier, for fee-tiered exchanges
+  poolId?: string; // Pool the leg was quoted on, for venues with several pools per pair
+}
+
+// Cyclic route such as USDC -> WMATIC -> WETH -> USDC; tokenA is the start token
+export interface MultiLegOpportunity extends ArbitrageOpportunity {
+  legs: RouteLeg[];
+}
+
+export function isMultiLegOpportunity(opportunity: ArbitrageOpportunity): opportunity is MultiLegOpportunity {
+  return Array.isArray((opportunity as MultiLegOpportunity).legs);
+}
+
+// Order-independent key for a token pair, e.g. "USDC/WMATIC"
+export function getPairKey(tokenA: TokenInfo, tokenB: TokenInfo): string {
+  return [tokenA.symbol, tokenB.symbol].sort().join('/');
 }
 
 export interface TradeResult {
   successful: boolean;
   txHash?: string;
-  profit: number;
-  netProfit: number;
-  amount: number;
+  profit: number; // MATIC
+  netProfit: number; // MATIC, after gas
+  amount: number; // tokenA
   tokenA: string;
   tokenB: string;
   sourceDEX: string;
@@ -45,14 +90,21 @@ export interface TradeResult {
   executionTime: number;
   blockNumber?: number;
   timestamp: Date;
+  simulated?: boolean; // Paper trade produced in dry-run mode, never broadcast
+  netProfitUSD?: number; // Net profit at the oracle's MATIC price when recorded
 }
 
+// Adapter families; every exchange of one type is built by the same adapter
+export type ExchangeType = 'uniswap-v3' | 'uniswap-v2-fork' | 'algebra' | 'curve' | 'balancer';
+
 export interface ExchangeConfig {
   name: string;
-  router: string;
+  type: ExchangeType;
+  router: string; // Router, or the pool / vault itself for venues swapped directly
   factory?: string;
   quoter?: string;
-  fee?: number;
+  fee?: number; // Swap fee per 1000 input units, for Uniswap V2 forks (3 = 0.3%)
+  feeTiers?: number[]; // Fee tiers quoted, for Uniswap V3
   enabled: boolean;
 }
 
@@ -104,16 +156,64 @@ export const TOKENS: Record<string, TokenInfo> = {
 export const EXCHANGES: Record<string, ExchangeConfig> = {
   UNISWAP_V3: {
     name: 'Uniswap V3',
+    type: 'uniswap-v3',
     router: '0xE592427A0AEce92De3Edee1F18E0157C05861564',
     factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
     quoter: '0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6',
+    feeTiers: [3000, 500], // 1% tier left out, its pools are too thin to arbitrage
     enabled: true
   },
   QUICKSWAP: {
     name: 'QuickSwap',
+    type: 'uniswap-v2-fork',
     router: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff',
     factory: '0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32',
+    fee: 3,
+    enabled: true
+  },
+  QUICKSWAP_V3: {
+    name: 'QuickSwap V3',
+    type: 'algebra',
+    router: '0xf5b509bB0909a69B1c207E495f687a596C168E12',
+    factory: '0x411b0fAcC3489691f28ad58c47006AF5E3Ab3A28',
     quoter: '0xa15F0D7377B2A0C0c10db057f641beD21028FC89',
     enabled: true
+  },
+  SUSHISWAP: {
+    name: 'SushiSwap',
+    type: 'uniswap-v2-fork',
+    router: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506',
+    factory: '0xc35DADB65012eC5796536bD9864eD8773aBc74C4',
+    fee: 3,
+    enabled: true
+  },
+  // Disabled by default; FlashArbitrageBot also needs each router approved with setApprovedTarget
+  APESWAP: {
+    name: 'ApeSwap',
+    type: 'uniswap-v2-fork',
+    router: '0xC0788A3aD43d79aa53B09c2EaCc313A787d1d607',
+    factory: '0xCf083Be4164828f00cAE704EC15a36D711491284',
+    fee: 2,
+    enabled: false
+  },
+  DFYN: {
+    name: 'Dfyn',
+    type: 'uniswap-v2-fork',
+    router: '0xA102072A4C07F06EC3B4900FDC4C7B80b6c57429',
+    factory: '0xE7Fb3e833eFE5F9c441105EB65Ef8b261266423B',
+    fee: 3,
+    enabled: false
+  },
+  CURVE: {
+    name: 'Curve',
+    type: 'curve',
+    router: '0x445FE580eF8d70FF569aB36e80c647af338db351', // aave pool: DAI, USDC.e, USDT
+    enabled: true
+  },
+  BALANCER: {
+    name: 'Balancer',
+    type: 'balancer',
+    router: '0xBA12222222228d8Ba445958a75a0704d566BF2C8', // Vault: every pool's swaps go through it
+    enabled: true
   }
 };
\ No newline at end of file
@@ -0,0 +1,425 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { BigNumber } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import {
+  FlashArbitrageBot,
+  FlashArbitrageBot__factory,
+  MockAavePool,
+  MockAavePool__factory,
+  MockBalancerVault,
+  MockBalancerVault__factory,
+  MockERC20,
+  MockERC20__factory,
+  MockUniswapV2Pair__factory,
+  MockUniswapV2Router,
+  MockUniswapV2Router__factory,
+  MockUniswapV3Router,
+  MockUniswapV3Router__factory,
+} from "../src/typechain";
+
+// FlashArbitrageBot borrows from these hardcoded addresses, so the mocks' code is installed there
+const VAULT_ADDRESS = "0xBA12222222228d8Ba445958a75a0704d566BF2C8";
+const AAVE_POOL_ADDRESS = "0x794a61358D6845594F94dc1DB02A252b5b4814aD";
+
+// Mirrors the Exchange enum in FlashArbitrageBot.sol
+const UNISWAP = 0;
+const QUICKSWAP = 1;
+
+const parse = (amount: string) => ethers.utils.parseEther(amount);
+
+describe("FlashArbitrageBot", () => {
+  let owner: SignerWithAddress;
+  let caller: SignerWithAddress;
+  let outsider: SignerWithAddress;
+  let tokenA: MockERC20;
+  let tokenB: MockERC20;
+  let vault: MockBalancerVault;
+  let aavePool: MockAavePool;
+  let v3Router: MockUniswapV3Router;
+  let v2Router: MockUniswapV2Router;
+  let bot: FlashArbitrageBot;
+
+  beforeEach(async () => {
+    [owner, caller, outsider] = await ethers.getSigners();
+
+    const tokenFactory = new MockERC20__factory(owner);
+    tokenA = await tokenFactory.deploy("Token A", "TKA", 18);
+    tokenB = await tokenFactory.deploy("Token B", "TKB", 18);
+
+    vault = MockBalancerVault__factory.connect(
+      await installCode(VAULT_ADDRESS, (await new MockBalancerVault__factory(owner).deploy()).address),
+      owner
+    );
+    await vault.setFlashLoanFee(0);
+    await tokenA.mint(VAULT_ADDRESS, parse("1000000"));
+
+    aavePool = MockAavePool__factory.connect(
+      await installCode(AAVE_POOL_ADDRESS, (await new MockAavePool__factory(owner).deploy()).address),
+      owner
+    );
+    await aavePool.setFlashLoanPremium(5); // 0.05%, Aave V3's Polygon premium
+    await tokenA.mint(AAVE_POOL_ADDRESS, parse("1000000"));
+
+    // Uniswap V3 pays 2 B per A; the V2 pair prices B at about 0.526 A
+    v3Router = await new MockUniswapV3Router__factory(owner).deploy();
+    await v3Router.setRate(tokenA.address, tokenB.address, parse("2"));
+    await v3Router.setRate(tokenB.address, tokenA.address, parse("0.5"));
+    await tokenA.mint(v3Router.address, parse("1000000"));
+    await tokenB.mint(v3Router.address, parse("1000000"));
+
+    v2Router = await new MockUniswapV2Router__factory(owner).deploy();
+    const pair = await new MockUniswapV2Pair__factory(owner).deploy(tokenA.address, tokenB.address);
+    await tokenA.mint(pair.address, parse("100000"));
+    await tokenB.mint(pair.address, parse("190000"));
+    await pair.sync();
+    await v2Router.addPair(pair.address);
+
+    bot = await new FlashArbitrageBot__factory(owner).deploy();
+    await bot.setApprovedTarget(v3Router.address, true);
+    await bot.setApprovedTarget(v2Router.address, true);
+    await bot.setAuthorizedCaller(caller.address, true);
+  });
+
+  // hardhat_setCode copies code but not storage, so each test sets the mock's settings itself
+  async function installCode(address: string, implementation: string): Promise<string> {
+    await network.provider.send("hardhat_setCode", [address, await ethers.provider.getCode(implementation)]);
+    return address;
+  }
+
+  // Buy B on Uniswap V3 and sell it on the V2 pair (profitable), or the reverse
+  function buildParams(amount: BigNumber, minProfit: BigNumber, reverse = false) {
+    const v3Step = (tokenIn: string, tokenOut: string) => ({
+      dex: UNISWAP,
+      target: v3Router.address,
+      tokenIn,
+      tokenOut,
+      fee: 500,
+      minOut: 0,
+    });
+    const v2Step = (tokenIn: string, tokenOut: string) => ({
+      dex: QUICKSWAP,
+      target: v2Router.address,
+      tokenIn,
+      tokenOut,
+      fee: 0,
+      minOut: 0,
+    });
+
+    const steps = reverse
+      ? [v2Step(tokenA.address, tokenB.address), v3Step(tokenB.address, tokenA.address)]
+      : [v3Step(tokenA.address, tokenB.address), v2Step(tokenB.address, tokenA.address)];
+
+    return { tokenA: tokenA.address, amount, minProfit, steps };
+  }
+
+  async function expectedProfit(amount: BigNumber): Promise<BigNumber> {
+    const [, amountOut] = await v2Router.getAmountsOut(amount.mul(2), [tokenB.address, tokenA.address]);
+    return amountOut.sub(amount);
+  }
+
+  describe("flash loan arbitrage", () => {
+    it("repays the Vault and keeps the profit", async () => {
+      const amount = parse("1000");
+      const profit = await expectedProfit(amount);
+      const params = buildParams(amount, parse("1"));
+
+      await expect(bot.connect(caller).executeArbitrage([tokenA.address], [amount], params))
+        .to.emit(bot, "ArbitrageExecuted")
+        .withArgs(tokenA.address, tokenB.address, amount, profit, UNISWAP, QUICKSWAP);
+
+      expect(await tokenA.balanceOf(bot.address)).to.equal(profit);
+      expect(await tokenA.balanceOf(VAULT_ADDRESS)).to.equal(parse("1000000"));
+      expect(await v3Router.lastFee()).to.equal(500);
+    });
+
+    it("returns the profit from a static call", async () => {
+      const amount = parse("1000");
+      const params = buildParams(amount, parse("1"));
+
+      const simulatedProfit = await bot.connect(caller).callStatic.executeArbitrage([tokenA.address], [amount], params);
+
+      expect(simulatedProfit).to.equal(await expectedProfit(amount));
+    });
+
+    it("pays the flash loan fee out of the profit", async () => {
+      await vault.setFlashLoanFee(10); // 0.1%
+      const amount = parse("1000");
+      const profit = await expectedProfit(amount);
+
+      await bot.connect(caller).executeArbitrage([tokenA.address], [amount], buildParams(amount, parse("1")));
+
+      expect(await tokenA.balanceOf(bot.address)).to.equal(profit.sub(amount.div(1000)));
+    });
+
+    it("reverts with InsufficientProfit on a losing route", async () => {
+      const amount = parse("1000");
+
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenA.address], [amount], buildParams(amount, parse("1"), true))
+      ).to.be.revertedWith("InsufficientProfit");
+    });
+
+    it("reverts with InsufficientProfit when the route earns less than minProfit", async () => {
+      const amount = parse("1000");
+      const profit = await expectedProfit(amount);
+
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenA.address], [amount], buildParams(amount, profit.add(1)))
+      ).to.be.revertedWith("InsufficientProfit");
+    });
+
+    it("reverts with InsufficientProfit when minProfit is below the threshold", async () => {
+      const amount = parse("1000");
+      const minProfit = (await bot.minProfitThreshold()).sub(1);
+
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenA.address], [amount], buildParams(amount, minProfit))
+      ).to.be.revertedWith("InsufficientProfit");
+    });
+
+    it("reverts when a step returns less than its minOut", async () => {
+      const amount = parse("1000");
+      const params = buildParams(amount, parse("1"));
+      params.steps[0].minOut = parse("2001");
+
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenA.address], [amount], params)
+      ).to.be.revertedWith("Too little received");
+    });
+
+    it("rejects routes that do not return to the borrowed token", async () => {
+      const amount = parse("1000");
+      const params = buildParams(amount, parse("1"));
+      params.steps = [params.steps[0]];
+
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenA.address], [amount], params)
+      ).to.be.revertedWith("InvalidRoute");
+    });
+
+    it("rejects loans that differ from the validated token and amount", async () => {
+      const amount = parse("1000");
+      const params = buildParams(amount, parse("1"));
+
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenA.address], [parse("2000")], params)
+      ).to.be.revertedWith("InvalidRoute");
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenB.address], [amount], params)
+      ).to.be.revertedWith("InvalidRoute");
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenA.address, tokenB.address], [amount, amount], params)
+      ).to.be.revertedWith("InvalidRoute");
+    });
+
+    it("rejects steps through unapproved targets", async () => {
+      await bot.setApprovedTarget(v2Router.address, false);
+      const amount = parse("1000");
+
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenA.address], [amount], buildParams(amount, parse("1")))
+      ).to.be.revertedWith("UnapprovedTarget");
+    });
+  });
+
+  describe("Aave flash loans", () => {
+    it("repays amount plus premium and keeps the rest", async () => {
+      const amount = parse("1000");
+      const premium = amount.mul(5).div(10000);
+      const netProfit = (await expectedProfit(amount)).sub(premium);
+
+      await expect(bot.connect(caller).executeAaveArbitrage(buildParams(amount, parse("1"))))
+        .to.emit(bot, "ArbitrageExecuted")
+        .withArgs(tokenA.address, tokenB.address, amount, netProfit, UNISWAP, QUICKSWAP);
+
+      expect(await tokenA.balanceOf(bot.address)).to.equal(netProfit);
+      expect(await tokenA.balanceOf(AAVE_POOL_ADDRESS)).to.equal(parse("1000000").add(premium));
+    });
+
+    it("returns the profit net of the premium from a static call", async () => {
+      const amount = parse("1000");
+      const premium = amount.mul(5).div(10000);
+
+      const simulatedProfit = await bot.connect(caller).callStatic.executeAaveArbitrage(buildParams(amount, parse("1")));
+
+      expect(simulatedProfit).to.equal((await expectedProfit(amount)).sub(premium));
+    });
+
+    it("reverts with InsufficientProfit when the premium eats into minProfit", async () => {
+      const amount = parse("1000");
+      const profit = await expectedProfit(amount);
+
+      await expect(
+        bot.connect(caller).executeAaveArbitrage(buildParams(amount, profit))
+      ).to.be.revertedWith("InsufficientProfit");
+    });
+
+    it("reverts with InsufficientProfit on a losing route", async () => {
+      const amount = parse("1000");
+
+      await expect(
+        bot.connect(caller).executeAaveArbitrage(buildParams(amount, parse("1"), true))
+      ).to.be.revertedWith("InsufficientProfit");
+    });
+
+    it("applies the caller, pause and trade size checks", async () => {
+      const amount = parse("1000");
+      const params = buildParams(amount, parse("1"));
+
+      await expect(bot.connect(outsider).executeAaveArbitrage(params)).to.be.revertedWith("UnauthorizedCaller");
+
+      await bot.setMaxTradeSize(parse("500"));
+      await expect(bot.connect(caller).executeAaveArbitrage(params)).to.be.revertedWith("InvalidTradeSize");
+
+      await bot.emergencyStop();
+      await expect(bot.connect(caller).executeAaveArbitrage(params)).to.be.revertedWith("Pausable: paused");
+    });
+
+    it("rejects flash loans it did not initiate", async () => {
+      const params = buildParams(parse("1000"), parse("1"));
+      const userData = ethers.utils.defaultAbiCoder.encode(
+        ["tuple(address tokenA, uint256 amount, uint256 minProfit, tuple(uint8 dex, address target, address tokenIn, address tokenOut, uint24 fee, uint256 minOut)[] steps)"],
+        [params]
+      );
+
+      await expect(
+        aavePool.connect(outsider).flashLoanSimple(bot.address, tokenA.address, parse("1000"), userData, 0)
+      ).to.be.revertedWith("Unauthorized flash loan initiator");
+      await expect(
+        bot.connect(outsider).executeOperation(tokenA.address, parse("1000"), 0, bot.address, userData)
+      ).to.be.revertedWith("Unauthorized flash loan callback");
+    });
+  });
+
+  describe("trade size", () => {
+    it("reverts with InvalidTradeSize above maxTradeSize", async () => {
+      await bot.setMaxTradeSize(parse("500"));
+      const amount = parse("1000");
+
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenA.address], [amount], buildParams(amount, parse("1")))
+      ).to.be.revertedWith("InvalidTradeSize");
+    });
+
+    it("accepts trades up to maxTradeSize", async () => {
+      await bot.setMaxTradeSize(parse("1000"));
+      const amount = parse("1000");
+
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenA.address], [amount], buildParams(amount, parse("1")))
+      ).to.emit(bot, "ArbitrageExecuted");
+    });
+
+    it("only lets the owner change limits", async () => {
+      await expect(bot.connect(caller).setMaxTradeSize(parse("1"))).to.be.revertedWith("Ownable: caller is not the owner");
+      await expect(bot.connect(caller).setMinProfitThreshold(0)).to.be.revertedWith("Ownable: caller is not the owner");
+
+      await bot.setMinProfitThreshold(parse("5"));
+      expect(await bot.minProfitThreshold()).to.equal(parse("5"));
+    });
+  });
+
+  describe("pause and resume", () => {
+    it("blocks execution after an emergency stop until the owner resumes", async () => {
+      const amount = parse("1000");
+      const params = buildParams(amount, parse("1"));
+
+      await expect(bot.connect(caller).emergencyStop()).to.emit(bot, "EmergencyStop");
+      expect(await bot.paused()).to.equal(true);
+
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenA.address], [amount], params)
+      ).to.be.revertedWith("Pausable: paused");
+
+      await expect(bot.connect(caller).resume()).to.be.revertedWith("Ownable: caller is not the owner");
+      await bot.resume();
+
+      await expect(
+        bot.connect(caller).executeArbitrage([tokenA.address], [amount], params)
+      ).to.emit(bot, "ArbitrageExecuted");
+    });
+
+    it("only lets authorized callers stop the contract", async () => {
+      await expect(bot.connect(outsider).emergencyStop()).to.be.revertedWith("UnauthorizedCaller");
+    });
+  });
+
+  describe("authorized callers", () => {
+    it("rejects callers that were never authorized", async () => {
+      const amount = parse("1000");
+
+      await expect(
+        bot.connect(outsider).executeArbitrage([tokenA.address], [amount], buildParams(amount, parse("1")))
+      ).to.be.revertedWith("UnauthorizedCaller");
+    });
+
+    it("follows setAuthorizedCaller", async () => {
+      const amount = parse("1000");
+      const params = buildParams(amount, parse("1"));
+
+      await bot.setAuthorizedCaller(outsider.address, true);
+      await expect(
+        bot.connect(outsider).executeArbitrage([tokenA.address], [amount], params)
+      ).to.emit(bot, "ArbitrageExecuted");
+
+      await bot.setAuthorizedCaller(outsider.address, false);
+      await expect(
+        bot.connect(outsider).executeArbitrage([tokenA.address], [amount], params)
+      ).to.be.revertedWith("UnauthorizedCaller");
+    });
+
+    it("only lets the owner authorize callers", async () => {
+      await expect(
+        bot.connect(caller).setAuthorizedCaller(outsider.address, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("rejects flash loan callbacks that do not come from the Vault", async () => {
+      const params = buildParams(parse("1000"), parse("1"));
+      const userData = ethers.utils.defaultAbiCoder.encode(
+        ["tuple(address tokenA, uint256 amount, uint256 minProfit, tuple(uint8 dex, address target, address tokenIn, address tokenOut, uint24 fee, uint256 minOut)[] steps)"],
+        [params]
+      );
+
+      await expect(
+        bot.connect(outsider).receiveFlashLoan([tokenA.address], [parse("1000")], [0], userData)
+      ).to.be.revertedWith("Unauthorized flash loan callback");
+    });
+
+    it("rejects Vault flash loans it did not initiate", async () => {
+      // A losing route with no minimums would otherwise be repaid out of profit the contract holds
+      await tokenA.mint(bot.address, parse("100"));
+      const params = buildParams(parse("1000"), 0, true);
+      const userData = ethers.utils.defaultAbiCoder.encode(
+        ["tuple(address tokenA, uint256 amount, uint256 minProfit, tuple(uint8 dex, address target, address tokenIn, address tokenOut, uint24 fee, uint256 minOut)[] steps)"],
+        [params]
+      );
+
+      await expect(
+        vault.connect(outsider).flashLoan(bot.address, [tokenA.address], [parse("1000")], userData)
+      ).to.be.revertedWith("Unauthorized flash loan initiator");
+      expect(await tokenA.balanceOf(bot.address)).to.equal(parse("100"));
+    });
+  });
+
+  describe("withdrawals", () => {
+    it("sends tokens to the owner", async () => {
+      await tokenA.mint(bot.address, parse("10"));
+
+      await bot.withdrawToken(tokenA.address, parse("4"));
+
+      expect(await tokenA.balanceOf(owner.address)).to.equal(parse("4"));
+      expect(await tokenA.balanceOf(bot.address)).to.equal(parse("6"));
+    });
+
+    it("only lets the owner withdraw", async () => {
+      await tokenA.mint(bot.address, parse("10"));
+
+      await expect(
+        bot.connect(caller).withdrawToken(tokenA.address, parse("10"))
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+      await expect(bot.connect(caller).withdrawETH()).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+});